@@ -0,0 +1,368 @@
+// Generated from the todo API OpenAPI document by services/api/src/generateClient.ts.
+// Do not edit by hand; run `npm run client:generate --workspace=@code-style/example-api`.
+
+export type CreateTodo = {
+  title: string;
+};
+
+export type ErrorResponse = {
+  error: string;
+  code: string;
+  details?: unknown[];
+};
+
+export type JsonPatch = JsonPatchOperation[];
+
+export type JsonPatchOperation =
+  | {
+      op: "add";
+      path: string;
+      value: unknown;
+    }
+  | {
+      op: "remove";
+      path: string;
+    }
+  | {
+      op: "replace";
+      path: string;
+      value: unknown;
+    }
+  | {
+      op: "move";
+      from: string;
+      path: string;
+    }
+  | {
+      op: "copy";
+      from: string;
+      path: string;
+    }
+  | {
+      op: "test";
+      path: string;
+      value: unknown;
+    };
+
+export type MergePatch = Record<string, unknown>;
+
+export type Problem = {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  instance?: string;
+  code: string;
+  errors?: ProblemError[];
+};
+
+export type ProblemError = {
+  detail: string;
+  pointer?: string;
+  parameter?: string;
+  header?: string;
+};
+
+export type Todo = {
+  id: string;
+  ownerId: string;
+  title: string;
+  completed: boolean;
+  createdAt: string;
+  updatedAt: string;
+  version: number;
+};
+
+export type TodoBatch = {
+  atomic?: boolean;
+  operations: TodoBatchOperation[];
+};
+
+export type TodoBatchOperation =
+  | {
+      op: "create";
+      body: CreateTodo;
+    }
+  | {
+      op: "update";
+      todoId: string;
+      body: UpdateTodo;
+    }
+  | {
+      op: "delete";
+      todoId: string;
+    };
+
+export type TodoBatchResponse = {
+  committed: boolean;
+  results: TodoBatchResult[];
+};
+
+export type TodoBatchResult = {
+  status: number;
+  todo?: Todo;
+  error?: ErrorResponse;
+};
+
+export type TodoListResponse = {
+  todos: Todo[];
+  nextCursor: string | null;
+};
+
+export type TodoPatch = MergePatch | JsonPatch;
+
+export type TodoSearchResponse = {
+  results: {
+    score: number;
+    todo: Todo;
+  }[];
+};
+
+export type UpdateTodo = {
+  title?: string;
+  completed?: boolean;
+};
+
+export type ClientOptions = {
+  baseUrl: string;
+  headers?: Record<string, string>;
+};
+
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: string;
+  readonly details: unknown;
+
+  constructor(status: number, body: ErrorResponse) {
+    super(body.error);
+    this.status = status;
+    this.code = body.code;
+    this.details = body.details;
+  }
+}
+
+type RequestOptions = {
+  method: string;
+  path: string;
+  query?: Record<string, string | number | boolean | undefined>;
+  headers?: Record<string, string | undefined>;
+  contentType?: string;
+  body?: unknown;
+  responseType?: "json" | "text";
+};
+
+async function readErrorResponse(response: Response): Promise<ErrorResponse> {
+  try {
+    const body = (await response.json()) as Partial<ErrorResponse & Problem>;
+    if (typeof body.detail === "string" && typeof body.code === "string") {
+      return { error: body.detail, code: body.code, details: body.errors };
+    }
+    if (typeof body.error === "string" && typeof body.code === "string") {
+      return { error: body.error, code: body.code, details: body.details };
+    }
+  } catch {}
+
+  return { error: response.statusText, code: "HTTP_ERROR" };
+}
+
+export function createClient(options: ClientOptions) {
+  const request = async <TResult>(
+    requestOptions: RequestOptions,
+  ): Promise<TResult> => {
+    const url = new URL(requestOptions.path, options.baseUrl);
+    for (const [name, value] of Object.entries(requestOptions.query ?? {})) {
+      if (value !== undefined) {
+        url.searchParams.set(name, String(value));
+      }
+    }
+
+    const headers: Record<string, string> = { ...options.headers };
+    for (const [name, value] of Object.entries(requestOptions.headers ?? {})) {
+      if (value !== undefined) {
+        headers[name] = value;
+      }
+    }
+    if (requestOptions.body !== undefined) {
+      headers["content-type"] =
+        requestOptions.contentType ?? "application/json";
+    }
+
+    const response = await fetch(url, {
+      method: requestOptions.method,
+      headers,
+      body:
+        requestOptions.body === undefined
+          ? undefined
+          : JSON.stringify(requestOptions.body),
+    });
+
+    if (!response.ok) {
+      throw new ApiError(response.status, await readErrorResponse(response));
+    }
+
+    if (response.status === 204) {
+      return undefined as TResult;
+    }
+
+    if (requestOptions.responseType === "text") {
+      return (await response.text()) as TResult;
+    }
+
+    return (await response.json()) as TResult;
+  };
+
+  return {
+    /** Health check */
+    getHealth: (): Promise<unknown> =>
+      request<unknown>({
+        method: "GET",
+        path: `/health`,
+      }),
+
+    /** Prometheus metrics */
+    getMetrics: (): Promise<string> =>
+      request<string>({
+        method: "GET",
+        path: `/metrics`,
+        responseType: "text",
+      }),
+
+    /** OpenAPI document */
+    getOpenApiDocument: (): Promise<unknown> =>
+      request<unknown>({
+        method: "GET",
+        path: `/openapi.json`,
+      }),
+
+    /** List todos */
+    listTodos: (
+      input: {
+        query?: {
+          completed?: "true" | "false";
+          createdAfter?: string;
+          createdBefore?: string;
+          sort?: "createdAt" | "updatedAt" | "title";
+          direction?: "asc" | "desc";
+          limit?: number;
+          cursor?: string;
+        };
+      } = {},
+    ): Promise<TodoListResponse> =>
+      request<TodoListResponse>({
+        method: "GET",
+        path: `/todos`,
+        query: input.query,
+      }),
+
+    /** Create todo */
+    createTodo: (input: {
+      headers?: {
+        "idempotency-key"?: string;
+      };
+      body: CreateTodo;
+    }): Promise<Todo> =>
+      request<Todo>({
+        method: "POST",
+        path: `/todos`,
+        headers: input.headers,
+        body: input.body,
+      }),
+
+    /** Create, update and delete todos in one request */
+    batchTodos: (input: {
+      headers?: {
+        "idempotency-key"?: string;
+      };
+      body: TodoBatch;
+    }): Promise<TodoBatchResponse> =>
+      request<TodoBatchResponse>({
+        method: "POST",
+        path: `/todos/batch`,
+        headers: input.headers,
+        body: input.body,
+      }),
+
+    /** Search todos by title */
+    searchTodos: (input: {
+      query: {
+        q: string;
+        limit?: number;
+      };
+    }): Promise<TodoSearchResponse> =>
+      request<TodoSearchResponse>({
+        method: "GET",
+        path: `/todos/search`,
+        query: input.query,
+      }),
+
+    /** Get todo by ID */
+    getTodo: (input: {
+      params: {
+        todoId: string;
+      };
+      headers?: {
+        "if-none-match"?: string;
+      };
+    }): Promise<Todo> =>
+      request<Todo>({
+        method: "GET",
+        path: `/todos/${encodeURIComponent(input.params.todoId)}`,
+        headers: input.headers,
+      }),
+
+    /** Update todo */
+    updateTodo: (input: {
+      params: {
+        todoId: string;
+      };
+      headers?: {
+        "if-match"?: string;
+      };
+      body: UpdateTodo;
+    }): Promise<Todo> =>
+      request<Todo>({
+        method: "PUT",
+        path: `/todos/${encodeURIComponent(input.params.todoId)}`,
+        headers: input.headers,
+        body: input.body,
+      }),
+
+    /** Patch todo */
+    patchTodo: (input: {
+      params: {
+        todoId: string;
+      };
+      headers?: {
+        "if-match"?: string;
+      };
+      contentType:
+        | "application/merge-patch+json"
+        | "application/json-patch+json";
+      body: TodoPatch;
+    }): Promise<Todo> =>
+      request<Todo>({
+        method: "PATCH",
+        path: `/todos/${encodeURIComponent(input.params.todoId)}`,
+        headers: input.headers,
+        contentType: input.contentType,
+        body: input.body,
+      }),
+
+    /** Delete todo */
+    deleteTodo: (input: {
+      params: {
+        todoId: string;
+      };
+      headers?: {
+        "if-match"?: string;
+      };
+    }): Promise<void> =>
+      request<void>({
+        method: "DELETE",
+        path: `/todos/${encodeURIComponent(input.params.todoId)}`,
+        headers: input.headers,
+      }),
+  };
+}
+
+export type Client = ReturnType<typeof createClient>;
@@ -0,0 +1,37 @@
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import type { Route } from "./types.ts";
+import { discoverRoutes, findRouteDrift } from "./utils/discoverRoutes.ts";
+
+async function main() {
+  const routesModulePath = process.argv[2];
+  if (!routesModulePath) {
+    throw new Error("Usage: node src/checkRoutes.ts <path/to/routes.ts>");
+  }
+
+  const routesModule = (await import(
+    pathToFileURL(path.resolve(routesModulePath)).href
+  )) as { routes: Route[] };
+  const discoveredRoutes = await discoverRoutes(
+    new URL("./controllers/", import.meta.url),
+  );
+  const drift = await findRouteDrift(routesModule.routes, discoveredRoutes);
+
+  if (drift.length > 0) {
+    for (const line of drift) {
+      console.error(line);
+    }
+    process.exit(1);
+  }
+
+  console.log(`${routesModule.routes.length} routes match src/controllers`);
+}
+
+main().catch((error) => {
+  if (error instanceof Error) {
+    console.error(error.stack ?? error.message);
+  } else {
+    console.error(String(error));
+  }
+  process.exit(1);
+});
@@ -1,10 +1,51 @@
 import { z } from "zod";
+import { AuthScopeSchema } from "./schemas/auth.ts";
 import type { Config } from "./types.ts";
 
+const ApiKeysSchema = z
+  .string()
+  .transform((value, context) => {
+    try {
+      return JSON.parse(value) as unknown;
+    } catch {
+      context.addIssue({ code: "custom", message: "Must be a JSON array" });
+      return z.NEVER;
+    }
+  })
+  .pipe(
+    z.array(
+      z.object({
+        id: z.string().min(1),
+        key: z.string().min(16),
+        scopes: z.array(AuthScopeSchema),
+      }),
+    ),
+  );
+
 const ConfigSchema = z.object({
   TODO_API_PORT: z.coerce.number().int().min(1).max(65535),
   TODO_API_PUBLIC_BASE_URL: z.string().url(),
   TODO_API_MAX_BODY_BYTES: z.coerce.number().int().positive(),
+  TODO_API_COMPRESSION_THRESHOLD_BYTES: z.coerce.number().int().nonnegative(),
+  TODO_API_IDEMPOTENCY_KEY_TTL_MS: z.coerce.number().int().positive(),
+  TODO_API_RATE_LIMIT_CAPACITY: z.coerce.number().int().positive(),
+  TODO_API_RATE_LIMIT_REFILL_PER_SECOND: z.coerce.number().positive(),
+  TODO_API_RATE_LIMIT_CLEANUP_INTERVAL_MS: z.coerce.number().int().positive(),
+  TODO_API_REQUEST_TIMEOUT_MS: z.coerce.number().int().positive(),
+  TODO_API_LOG_LEVEL: z.enum(["debug", "info", "warn", "error", "silent"]),
+  TODO_API_LOG_DESTINATION: z.string().min(1),
+  TODO_API_OTLP_TRACES_URL: z
+    .union([z.literal("none"), z.string().url()])
+    .transform((value) => (value === "none" ? null : value)),
+  TODO_API_OTLP_EXPORT_TIMEOUT_MS: z.coerce.number().int().positive(),
+  TODO_API_AUTH_TOKEN_SECRET: z.string().min(32),
+  TODO_API_API_KEYS: ApiKeysSchema,
+  TODO_API_ERROR_FORMAT: z.enum(["problem", "json", "negotiate"]),
+  TODO_API_TODO_STORE: z.enum(["memory", "file"]),
+  TODO_API_DATA_DIRECTORY: z.string().min(1),
+  TODO_API_FSYNC_POLICY: z.enum(["always", "interval", "never"]),
+  TODO_API_FSYNC_INTERVAL_MS: z.coerce.number().int().positive(),
+  TODO_API_SNAPSHOT_EVERY_OPERATIONS: z.coerce.number().int().positive(),
 });
 
 export function loadConfig(env: NodeJS.ProcessEnv): Config {
@@ -12,11 +53,50 @@ export function loadConfig(env: NodeJS.ProcessEnv): Config {
     TODO_API_PORT: env.TODO_API_PORT,
     TODO_API_PUBLIC_BASE_URL: env.TODO_API_PUBLIC_BASE_URL,
     TODO_API_MAX_BODY_BYTES: env.TODO_API_MAX_BODY_BYTES,
+    TODO_API_COMPRESSION_THRESHOLD_BYTES:
+      env.TODO_API_COMPRESSION_THRESHOLD_BYTES,
+    TODO_API_IDEMPOTENCY_KEY_TTL_MS: env.TODO_API_IDEMPOTENCY_KEY_TTL_MS,
+    TODO_API_RATE_LIMIT_CAPACITY: env.TODO_API_RATE_LIMIT_CAPACITY,
+    TODO_API_RATE_LIMIT_REFILL_PER_SECOND:
+      env.TODO_API_RATE_LIMIT_REFILL_PER_SECOND,
+    TODO_API_RATE_LIMIT_CLEANUP_INTERVAL_MS:
+      env.TODO_API_RATE_LIMIT_CLEANUP_INTERVAL_MS,
+    TODO_API_REQUEST_TIMEOUT_MS: env.TODO_API_REQUEST_TIMEOUT_MS,
+    TODO_API_LOG_LEVEL: env.TODO_API_LOG_LEVEL,
+    TODO_API_LOG_DESTINATION: env.TODO_API_LOG_DESTINATION,
+    TODO_API_OTLP_TRACES_URL: env.TODO_API_OTLP_TRACES_URL,
+    TODO_API_OTLP_EXPORT_TIMEOUT_MS: env.TODO_API_OTLP_EXPORT_TIMEOUT_MS,
+    TODO_API_AUTH_TOKEN_SECRET: env.TODO_API_AUTH_TOKEN_SECRET,
+    TODO_API_API_KEYS: env.TODO_API_API_KEYS,
+    TODO_API_ERROR_FORMAT: env.TODO_API_ERROR_FORMAT,
+    TODO_API_TODO_STORE: env.TODO_API_TODO_STORE,
+    TODO_API_DATA_DIRECTORY: env.TODO_API_DATA_DIRECTORY,
+    TODO_API_FSYNC_POLICY: env.TODO_API_FSYNC_POLICY,
+    TODO_API_FSYNC_INTERVAL_MS: env.TODO_API_FSYNC_INTERVAL_MS,
+    TODO_API_SNAPSHOT_EVERY_OPERATIONS: env.TODO_API_SNAPSHOT_EVERY_OPERATIONS,
   });
 
   return {
     todoApiPort: parsed.TODO_API_PORT,
     publicBaseUrl: parsed.TODO_API_PUBLIC_BASE_URL,
     maxBodyBytes: parsed.TODO_API_MAX_BODY_BYTES,
+    compressionThresholdBytes: parsed.TODO_API_COMPRESSION_THRESHOLD_BYTES,
+    idempotencyKeyTtlMs: parsed.TODO_API_IDEMPOTENCY_KEY_TTL_MS,
+    rateLimitCapacity: parsed.TODO_API_RATE_LIMIT_CAPACITY,
+    rateLimitRefillPerSecond: parsed.TODO_API_RATE_LIMIT_REFILL_PER_SECOND,
+    rateLimitCleanupIntervalMs: parsed.TODO_API_RATE_LIMIT_CLEANUP_INTERVAL_MS,
+    requestTimeoutMs: parsed.TODO_API_REQUEST_TIMEOUT_MS,
+    logLevel: parsed.TODO_API_LOG_LEVEL,
+    logDestination: parsed.TODO_API_LOG_DESTINATION,
+    otlpTracesUrl: parsed.TODO_API_OTLP_TRACES_URL,
+    otlpExportTimeoutMs: parsed.TODO_API_OTLP_EXPORT_TIMEOUT_MS,
+    authTokenSecret: parsed.TODO_API_AUTH_TOKEN_SECRET,
+    apiKeys: parsed.TODO_API_API_KEYS,
+    errorFormat: parsed.TODO_API_ERROR_FORMAT,
+    todoStore: parsed.TODO_API_TODO_STORE,
+    dataDirectory: parsed.TODO_API_DATA_DIRECTORY,
+    fsyncPolicy: parsed.TODO_API_FSYNC_POLICY,
+    fsyncIntervalMs: parsed.TODO_API_FSYNC_INTERVAL_MS,
+    snapshotEveryOperations: parsed.TODO_API_SNAPSHOT_EVERY_OPERATIONS,
   };
 }
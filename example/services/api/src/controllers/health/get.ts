@@ -1,8 +1,11 @@
-import type { ControllerModule } from "../../types.ts";
+import { defineController } from "../../utils/defineController.ts";
 import { sendJson } from "../../utils/http.ts";
 
-const controller: ControllerModule = {
+const controller = defineController({
+  auth: "public",
+  rateLimitCost: 0,
   openapi: {
+    operationId: "getHealth",
     summary: "Health check",
     responses: {
       "200": {
@@ -11,11 +14,11 @@ const controller: ControllerModule = {
     },
   },
   handler: async ({ context, response }) => {
-    sendJson(response, 200, {
+    sendJson(context, response, 200, {
       status: "ok",
       alive: context.lifecycle.alive,
     });
   },
-};
+});
 
 export default controller;
@@ -0,0 +1,28 @@
+import { defineController } from "../../utils/defineController.ts";
+
+const controller = defineController({
+  auth: { scopes: ["metrics:read"] },
+  rateLimitCost: 0,
+  openapi: {
+    operationId: "getMetrics",
+    summary: "Prometheus metrics",
+    responses: {
+      "200": {
+        description: "Metrics in the Prometheus text exposition format",
+        content: {
+          "text/plain": {
+            schema: { type: "string" },
+          },
+        },
+      },
+    },
+  },
+  handler: async ({ context, response }) => {
+    response.writeHead(200, {
+      "content-type": "text/plain; version=0.0.4; charset=utf-8",
+    });
+    response.end(context.metrics.render());
+  },
+});
+
+export default controller;
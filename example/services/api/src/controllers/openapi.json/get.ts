@@ -0,0 +1,22 @@
+import { defineController } from "../../utils/defineController.ts";
+import { sendJson } from "../../utils/http.ts";
+import { createOpenApiDocument } from "../../utils/openapi.ts";
+
+const controller = defineController({
+  auth: "public",
+  rateLimitCost: 1,
+  openapi: {
+    operationId: "getOpenApiDocument",
+    summary: "OpenAPI document",
+    responses: {
+      "200": {
+        description: "OpenAPI JSON",
+      },
+    },
+  },
+  handler: async ({ context, response }) => {
+    sendJson(context, response, 200, await createOpenApiDocument());
+  },
+});
+
+export default controller;
@@ -1,28 +1,50 @@
 import { deleteTodo } from "../../../models/todos.ts";
-import { TodoParamsSchema } from "../../../schemas/todos.ts";
-import type { ControllerModule } from "../../../types.ts";
+import {
+  TodoParamsSchema,
+  TodoWriteHeadersSchema,
+} from "../../../schemas/todos.ts";
+import { defineController } from "../../../utils/defineController.ts";
 
-const controller: ControllerModule = {
+const controller = defineController({
+  auth: { scopes: ["todos:write"] },
   schema: {
     params: TodoParamsSchema,
+    headers: TodoWriteHeadersSchema,
   },
+  rateLimitCost: 1,
   openapi: {
+    operationId: "deleteTodo",
     summary: "Delete todo",
     responses: {
       "204": {
         description: "Todo deleted",
       },
+      "400": {
+        description: "Invalid todo ID",
+      },
       "404": {
         description: "Todo not found",
       },
+      "412": {
+        description: "Todo changed since the If-Match version",
+      },
     },
   },
-  handler: async ({ context, response, params }) => {
-    const parsed = TodoParamsSchema.parse(params);
-    await deleteTodo(context, parsed.todoId);
+  handler: async ({
+    context,
+    principal,
+    response,
+    signal,
+    params,
+    headers,
+  }) => {
+    await deleteTodo(context, principal.id, params.todoId, {
+      ifMatch: headers["if-match"],
+      signal,
+    });
     response.writeHead(204);
     response.end();
   },
-};
+});
 
 export default controller;
@@ -1,31 +1,61 @@
 import { getTodoById } from "../../../models/todos.ts";
-import { TodoParamsSchema, TodoSchema } from "../../../schemas/todos.ts";
-import type { ControllerModule } from "../../../types.ts";
+import {
+  TodoParamsSchema,
+  TodoReadHeadersSchema,
+  TodoSchema,
+} from "../../../schemas/todos.ts";
+import { defineController } from "../../../utils/defineController.ts";
+import { matchesIfNoneMatch, toEtag } from "../../../utils/etag.ts";
 import { sendJson } from "../../../utils/http.ts";
 
 const responseSchema = TodoSchema;
 
-const controller: ControllerModule = {
+const controller = defineController({
+  auth: { scopes: ["todos:read"] },
   schema: {
     params: TodoParamsSchema,
+    headers: TodoReadHeadersSchema,
     response: responseSchema,
   },
+  rateLimitCost: 1,
   openapi: {
+    operationId: "getTodo",
     summary: "Get todo by ID",
     responses: {
       "200": {
         description: "Todo found",
+        headers: {
+          ETag: {
+            description: "Current version of the todo",
+            schema: { type: "string" },
+          },
+        },
+      },
+      "304": {
+        description: "Todo unchanged since the If-None-Match version",
+      },
+      "400": {
+        description: "Invalid todo ID",
       },
       "404": {
         description: "Todo not found",
       },
     },
   },
-  handler: async ({ context, response, params }) => {
-    const parsed = TodoParamsSchema.parse(params);
-    const todo = await getTodoById(context, parsed.todoId);
-    sendJson(response, 200, responseSchema.parse(todo));
+  handler: async ({ context, principal, response, params, headers }) => {
+    const todo = await getTodoById(context, principal.id, params.todoId);
+    const etag = toEtag(todo);
+    response.setHeader("etag", etag);
+
+    const ifNoneMatch = headers["if-none-match"];
+    if (ifNoneMatch !== undefined && matchesIfNoneMatch(ifNoneMatch, etag)) {
+      response.writeHead(304);
+      response.end();
+      return;
+    }
+
+    sendJson(context, response, 200, responseSchema.parse(todo));
   },
-};
+});
 
 export default controller;
@@ -0,0 +1,97 @@
+import { patchTodo } from "../../../models/todos.ts";
+import { JsonPatchSchema, MergePatchSchema } from "../../../schemas/patch.ts";
+import {
+  TodoParamsSchema,
+  TodoPatchSchema,
+  TodoSchema,
+  TodoWriteHeadersSchema,
+} from "../../../schemas/todos.ts";
+import { applyJsonPatch, applyMergePatch } from "../../../utils/applyPatch.ts";
+import { defineController } from "../../../utils/defineController.ts";
+import { toEtag } from "../../../utils/etag.ts";
+import { sendJson } from "../../../utils/http.ts";
+import { parseRequestInput } from "../../../utils/parseRequestInput.ts";
+
+const responseSchema = TodoSchema;
+
+const controller = defineController({
+  auth: { scopes: ["todos:write"] },
+  schema: {
+    params: TodoParamsSchema,
+    headers: TodoWriteHeadersSchema,
+    body: TodoPatchSchema,
+    response: responseSchema,
+  },
+  bodyTypes: ["application/merge-patch+json", "application/json-patch+json"],
+  rateLimitCost: 1,
+  openapi: {
+    operationId: "patchTodo",
+    summary: "Patch todo",
+    requestBody: {
+      required: true,
+    },
+    responses: {
+      "200": {
+        description: "Todo patched",
+        headers: {
+          ETag: {
+            description: "Current version of the todo",
+            schema: { type: "string" },
+          },
+        },
+      },
+      "400": {
+        description: "Invalid todo ID or patch document",
+      },
+      "404": {
+        description: "Todo not found",
+      },
+      "409": {
+        description: "Duplicate title",
+      },
+      "412": {
+        description: "Todo changed since the If-Match version",
+      },
+      "415": {
+        description: "Unsupported request content-type",
+      },
+      "422": {
+        description: "Patch could not be applied or produced an invalid todo",
+      },
+    },
+  },
+  handler: async ({
+    context,
+    principal,
+    response,
+    signal,
+    params,
+    headers,
+    body,
+    bodyType,
+  }) => {
+    let applyPatch: (todo: unknown) => unknown;
+    if (bodyType === "application/json-patch+json") {
+      const operations = parseRequestInput(JsonPatchSchema, body, "body");
+      applyPatch = (todo) => applyJsonPatch(todo, operations);
+    } else {
+      const mergePatch = parseRequestInput(MergePatchSchema, body, "body");
+      applyPatch = (todo) => applyMergePatch(todo, mergePatch);
+    }
+
+    const todo = await patchTodo(
+      context,
+      principal.id,
+      params.todoId,
+      applyPatch,
+      {
+        ifMatch: headers["if-match"],
+        signal,
+      },
+    );
+    response.setHeader("etag", toEtag(todo));
+    sendJson(context, response, 200, responseSchema.parse(todo));
+  },
+});
+
+export default controller;
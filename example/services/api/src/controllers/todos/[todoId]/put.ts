@@ -2,21 +2,26 @@ import { updateTodo } from "../../../models/todos.ts";
 import {
   TodoParamsSchema,
   TodoSchema,
+  TodoWriteHeadersSchema,
   UpdateTodoSchema,
 } from "../../../schemas/todos.ts";
-import type { ControllerModule } from "../../../types.ts";
-import { getBodyFromRequest } from "../../../utils/getBodyFromRequest.ts";
+import { defineController } from "../../../utils/defineController.ts";
+import { toEtag } from "../../../utils/etag.ts";
 import { sendJson } from "../../../utils/http.ts";
 
 const responseSchema = TodoSchema;
 
-const controller: ControllerModule = {
+const controller = defineController({
+  auth: { scopes: ["todos:write"] },
   schema: {
     params: TodoParamsSchema,
+    headers: TodoWriteHeadersSchema,
     body: UpdateTodoSchema,
     response: responseSchema,
   },
+  rateLimitCost: 1,
   openapi: {
+    operationId: "updateTodo",
     summary: "Update todo",
     requestBody: {
       required: true,
@@ -24,6 +29,15 @@ const controller: ControllerModule = {
     responses: {
       "200": {
         description: "Todo updated",
+        headers: {
+          ETag: {
+            description: "Current version of the todo",
+            schema: { type: "string" },
+          },
+        },
+      },
+      "400": {
+        description: "Invalid todo ID or body",
       },
       "404": {
         description: "Todo not found",
@@ -31,15 +45,30 @@ const controller: ControllerModule = {
       "409": {
         description: "Duplicate title",
       },
+      "412": {
+        description: "Todo changed since the If-Match version",
+      },
+      "415": {
+        description: "Unsupported request content-type",
+      },
     },
   },
-  handler: async ({ context, request, response, params }) => {
-    const parsedParams = TodoParamsSchema.parse(params);
-    const body = await getBodyFromRequest(context, request, "json");
-    const parsedBody = UpdateTodoSchema.parse(body);
-    const todo = await updateTodo(context, parsedParams.todoId, parsedBody);
-    sendJson(response, 200, responseSchema.parse(todo));
+  handler: async ({
+    context,
+    principal,
+    response,
+    signal,
+    params,
+    headers,
+    body,
+  }) => {
+    const todo = await updateTodo(context, principal.id, params.todoId, body, {
+      ifMatch: headers["if-match"],
+      signal,
+    });
+    response.setHeader("etag", toEtag(todo));
+    sendJson(context, response, 200, responseSchema.parse(todo));
   },
-};
+});
 
 export default controller;
@@ -0,0 +1,52 @@
+import { runTodoBatch } from "../../../models/todos.ts";
+import {
+  TodoBatchResponseSchema,
+  TodoBatchSchema,
+} from "../../../schemas/todos.ts";
+import { defineController } from "../../../utils/defineController.ts";
+import { sendJson } from "../../../utils/http.ts";
+
+const responseSchema = TodoBatchResponseSchema;
+
+const controller = defineController({
+  auth: { scopes: ["todos:write"] },
+  schema: {
+    body: TodoBatchSchema,
+    response: responseSchema,
+  },
+  idempotent: true,
+  rateLimitCost: 10,
+  openapi: {
+    operationId: "batchTodos",
+    summary: "Create, update and delete todos in one request",
+    description:
+      "Operations run in order. With `atomic` (the default) the first failing operation rolls back the whole batch and the other operations report 424; otherwise each operation succeeds or fails on its own. Check `committed` and each result's `status`.",
+    requestBody: {
+      required: true,
+    },
+    responses: {
+      "200": {
+        description: "Per-operation results",
+      },
+      "400": {
+        description: "Invalid batch body",
+      },
+      "409": {
+        description:
+          "Todos changed while the batch was applied, or the same Idempotency-Key is still in progress",
+      },
+      "415": {
+        description: "Unsupported request content-type",
+      },
+      "422": {
+        description: "Idempotency-Key reused with a different payload",
+      },
+    },
+  },
+  handler: async ({ context, principal, response, signal, body }) => {
+    const result = await runTodoBatch(context, principal.id, body, { signal });
+    sendJson(context, response, 200, responseSchema.parse(result));
+  },
+});
+
+export default controller;
@@ -1,26 +1,85 @@
 import { listTodos } from "../../models/todos.ts";
-import { TodoListResponseSchema } from "../../schemas/todos.ts";
-import type { ControllerModule } from "../../types.ts";
-import { sendJson } from "../../utils/http.ts";
+import {
+  ListTodosQuerySchema,
+  TodoListResponseSchema,
+  TodoSchema,
+} from "../../schemas/todos.ts";
+import { defineController } from "../../utils/defineController.ts";
+import { sendCsv, sendJson, sendNdjson } from "../../utils/http.ts";
 
 const responseSchema = TodoListResponseSchema;
+const rowSchema = TodoSchema;
 
-const controller: ControllerModule = {
+const controller = defineController({
+  auth: { scopes: ["todos:read"] },
   schema: {
+    query: ListTodosQuerySchema,
     response: responseSchema,
+    row: rowSchema,
   },
+  formats: ["application/json", "application/x-ndjson", "text/csv"],
+  rateLimitCost: 1,
   openapi: {
+    operationId: "listTodos",
     summary: "List todos",
     responses: {
       "200": {
-        description: "Todos list",
+        description: "One page of todos",
+        headers: {
+          Link: {
+            description:
+              'URL of the next page with rel="next", when there is one',
+            schema: { type: "string" },
+          },
+        },
+      },
+      "400": {
+        description: "Invalid filter, sort, limit or cursor",
+      },
+      "406": {
+        description: "No acceptable response format",
       },
     },
   },
-  handler: async ({ context, response }) => {
-    const todos = await listTodos(context);
-    sendJson(response, 200, responseSchema.parse({ todos }));
+  handler: async ({ context, principal, request, response, query, format }) => {
+    const { todos, nextCursor } = await listTodos(context, principal.id, query);
+
+    // NDJSON and CSV bodies have nowhere to carry the cursor, so every format also gets a Link header.
+    if (nextCursor) {
+      const nextUrl = new URL(
+        request.url ?? "/todos",
+        context.config.publicBaseUrl,
+      );
+      nextUrl.searchParams.set("cursor", nextCursor);
+      response.setHeader("link", `<${nextUrl.href}>; rel="next"`);
+    }
+
+    if (format === "application/x-ndjson") {
+      await sendNdjson(
+        response,
+        200,
+        todos.map((todo) => rowSchema.parse(todo)),
+      );
+      return;
+    }
+
+    if (format === "text/csv") {
+      await sendCsv(
+        response,
+        200,
+        Object.keys(rowSchema.shape),
+        todos.map((todo) => rowSchema.parse(todo)),
+      );
+      return;
+    }
+
+    sendJson(
+      context,
+      response,
+      200,
+      responseSchema.parse({ todos, nextCursor }),
+    );
   },
-};
+});
 
 export default controller;
@@ -1,17 +1,25 @@
 import { createTodo } from "../../models/todos.ts";
 import { CreateTodoSchema, TodoSchema } from "../../schemas/todos.ts";
-import type { ControllerModule } from "../../types.ts";
-import { getBodyFromRequest } from "../../utils/getBodyFromRequest.ts";
+import { defineController } from "../../utils/defineController.ts";
 import { sendJson } from "../../utils/http.ts";
 
 const responseSchema = TodoSchema;
 
-const controller: ControllerModule = {
+const controller = defineController({
+  auth: { scopes: ["todos:write"] },
   schema: {
     body: CreateTodoSchema,
     response: responseSchema,
   },
+  bodyTypes: [
+    "application/json",
+    "application/x-www-form-urlencoded",
+    "multipart/form-data",
+  ],
+  idempotent: true,
+  rateLimitCost: 1,
   openapi: {
+    operationId: "createTodo",
     summary: "Create todo",
     requestBody: {
       required: true,
@@ -20,16 +28,25 @@ const controller: ControllerModule = {
       "201": {
         description: "Created todo",
       },
+      "400": {
+        description: "Invalid todo body",
+      },
       "409": {
-        description: "Duplicate title",
+        description:
+          "Duplicate title, or the same Idempotency-Key is still in progress",
+      },
+      "415": {
+        description: "Unsupported request content-type",
+      },
+      "422": {
+        description: "Idempotency-Key reused with a different payload",
       },
     },
   },
-  handler: async ({ context, request, response }) => {
-    const body = await getBodyFromRequest(context, request, "json");
-    const todo = await createTodo(context, CreateTodoSchema.parse(body));
-    sendJson(response, 201, responseSchema.parse(todo));
+  handler: async ({ context, principal, response, signal, body }) => {
+    const todo = await createTodo(context, principal.id, body, { signal });
+    sendJson(context, response, 201, responseSchema.parse(todo));
   },
-};
+});
 
 export default controller;
@@ -0,0 +1,36 @@
+import { searchTodos } from "../../../models/todos.ts";
+import {
+  SearchTodosQuerySchema,
+  TodoSearchResponseSchema,
+} from "../../../schemas/todos.ts";
+import { defineController } from "../../../utils/defineController.ts";
+import { sendJson } from "../../../utils/http.ts";
+
+const responseSchema = TodoSearchResponseSchema;
+
+const controller = defineController({
+  auth: { scopes: ["todos:read"] },
+  schema: {
+    query: SearchTodosQuerySchema,
+    response: responseSchema,
+  },
+  rateLimitCost: 2,
+  openapi: {
+    operationId: "searchTodos",
+    summary: "Search todos by title",
+    responses: {
+      "200": {
+        description: "Matching todos, most relevant first",
+      },
+      "400": {
+        description: "Missing or invalid search query",
+      },
+    },
+  },
+  handler: async ({ context, principal, response, query }) => {
+    const results = await searchTodos(context, principal.id, query);
+    sendJson(context, response, 200, responseSchema.parse(results));
+  },
+});
+
+export default controller;
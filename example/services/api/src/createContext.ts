@@ -1,30 +1,96 @@
-import type { Config, Context, TodoRecord } from "./types.ts";
+import type { Config, Context, Logger, ManagedTodoStore } from "./types.ts";
+import { createFileTodoStore } from "./utils/createFileTodoStore.ts";
+import { createIdempotencyStore } from "./utils/createIdempotencyStore.ts";
+import { createLogger } from "./utils/createLogger.ts";
+import { createMemoryTodoStore } from "./utils/createMemoryTodoStore.ts";
+import { createMetricsRegistry } from "./utils/createMetricsRegistry.ts";
+import { createRateLimiter } from "./utils/createRateLimiter.ts";
+import { createTemporaryFileStore } from "./utils/createTemporaryFileStore.ts";
+import { createTransactionStore } from "./utils/createTransactionStore.ts";
+import {
+  createNoopSpanExporter,
+  createOtlpSpanExporter,
+} from "./utils/spanExporters.ts";
+
+function createTodoStore(config: Config, logger: Logger): ManagedTodoStore {
+  if (config.todoStore === "memory") {
+    return createMemoryTodoStore();
+  }
+  return createFileTodoStore({
+    directory: config.dataDirectory,
+    fsyncPolicy: config.fsyncPolicy,
+    fsyncIntervalMs: config.fsyncIntervalMs,
+    snapshotEveryOperations: config.snapshotEveryOperations,
+    logger,
+  });
+}
 
 export function createContext(config: Config): Context {
-  const todos = new Map<string, TodoRecord>();
+  const temporaryFiles = createTemporaryFileStore();
+  const logger = createLogger({
+    level: config.logLevel,
+    destination: config.logDestination,
+  });
+  const todoStore = createTodoStore(config, logger);
+  const idempotencyKeys = createIdempotencyStore(config.idempotencyKeyTtlMs);
+  const spanExporter = config.otlpTracesUrl
+    ? createOtlpSpanExporter({
+        url: config.otlpTracesUrl,
+        serviceName: "todo-api",
+        timeoutMs: config.otlpExportTimeoutMs,
+        logger,
+      })
+    : createNoopSpanExporter();
+  const metrics = createMetricsRegistry();
+  metrics.gauge("todo_store_todos", "Todos held in the store", () =>
+    todoStore.count(),
+  );
+  const rateLimiter = createRateLimiter({
+    capacity: config.rateLimitCapacity,
+    refillPerSecond: config.rateLimitRefillPerSecond,
+    cleanupIntervalMs: config.rateLimitCleanupIntervalMs,
+  });
 
-  return {
+  const context: Context = {
     config,
     lifecycle: {
       alive: true,
     },
     db: {
-      todos: {
-        getAll: () => [...todos.values()],
-        getById: (id: string) => todos.get(id),
-        insert: (todo: TodoRecord) => {
-          todos.set(todo.id, todo);
-        },
-        replace: (todo: TodoRecord) => {
-          todos.set(todo.id, todo);
-        },
-        deleteById: (id: string) => {
-          todos.delete(id);
-        },
+      todos: todoStore,
+      transaction: async (work) => {
+        const transactionStore = createTransactionStore(todoStore);
+        const transactionContext: Context = {
+          ...context,
+          db: {
+            todos: transactionStore,
+            // Nested transactions join the outer one.
+            transaction: (nestedWork) => nestedWork(transactionContext),
+          },
+        };
+
+        const result = await work(transactionContext);
+        transactionStore.commit();
+        return result;
       },
     },
+    logger,
+    metrics,
+    spanExporter,
+    temporaryFiles,
+    idempotencyKeys,
+    rateLimiter,
+    inFlightRequests: new Set(),
     destroy: async () => {
-      todos.clear();
+      await todoStore.close();
+      idempotencyKeys.clear();
+      rateLimiter.clear();
+      metrics.clear();
+      await temporaryFiles.removeAll();
+      await context.spanExporter.shutdown();
+      await logger.close();
     },
   };
+
+  return context;
 }
@@ -1,6 +1,7 @@
 import http from "node:http";
 import type { Socket } from "node:net";
 import { createContext } from "./createContext.ts";
+import { ServiceUnavailableError } from "./errors.ts";
 import { routes } from "./routes.ts";
 import type { Config, Context } from "./types.ts";
 import { createRouter } from "./utils/createRouter.ts";
@@ -18,11 +19,17 @@ export type AppServer = {
 
 export function createServer(config: Config): AppServer {
   const context = createContext(config);
+  const handleRequest = createRouter(context, routes);
   const apiServer = http.createServer((request, response) => {
-    createRouter(context, routes, request, response);
+    handleRequest(request, response);
   });
 
   const sockets = new Set<Socket>();
+  context.metrics.gauge(
+    "http_open_sockets",
+    "Open client sockets on the API server",
+    () => sockets.size,
+  );
 
   const bindSocketTracking = () => {
     apiServer.on("connection", (socket) => {
@@ -35,48 +42,81 @@ export function createServer(config: Config): AppServer {
 
   bindSocketTracking();
 
+  const logger = context.logger;
+
+  // Failures are logged with their phase and rethrown so callers still fail fast.
+  const runPhase = async (
+    phase: "start" | "stop" | "restart",
+    work: () => Promise<void>,
+  ) => {
+    try {
+      await work();
+    } catch (error) {
+      logger.error(`Server ${phase} failed`, { phase, error });
+      throw error;
+    }
+  };
+
   const app: AppServer = {
     context,
     servers: {
       api: apiServer,
     },
-    start: async () => {
-      context.lifecycle.alive = true;
-
-      await new Promise<void>((resolve, reject) => {
-        apiServer.once("error", reject);
-        apiServer.listen(config.todoApiPort, () => {
-          apiServer.off("error", reject);
-          resolve();
+    start: () =>
+      runPhase("start", async () => {
+        context.lifecycle.alive = true;
+
+        await new Promise<void>((resolve, reject) => {
+          apiServer.once("error", reject);
+          apiServer.listen(config.todoApiPort, () => {
+            apiServer.off("error", reject);
+            resolve();
+          });
         });
-      });
 
-      await waitForHealth(config);
-    },
-    stop: async () => {
-      context.lifecycle.alive = false;
-
-      for (const socket of sockets) {
-        socket.destroy();
-      }
-      sockets.clear();
-
-      await new Promise<void>((resolve, reject) => {
-        apiServer.close((error) => {
-          if (error) {
-            reject(error);
-            return;
-          }
-          resolve();
+        await waitForHealth(config);
+
+        logger.info("Server started", {
+          phase: "start",
+          url: config.publicBaseUrl,
         });
-      });
+      }),
+    stop: () =>
+      runPhase("stop", async () => {
+        context.lifecycle.alive = false;
 
-      await context.destroy();
-    },
-    restart: async () => {
-      await app.stop();
-      await app.start();
-    },
+        for (const controller of context.inFlightRequests) {
+          controller.abort(
+            new ServiceUnavailableError("Server is shutting down"),
+          );
+        }
+        context.inFlightRequests.clear();
+
+        for (const socket of sockets) {
+          socket.destroy();
+        }
+        sockets.clear();
+
+        await new Promise<void>((resolve, reject) => {
+          apiServer.close((error) => {
+            if (error) {
+              reject(error);
+              return;
+            }
+            resolve();
+          });
+        });
+
+        // Logged before destroy, which flushes the logger.
+        logger.info("Server stopped", { phase: "stop" });
+        await context.destroy();
+      }),
+    restart: () =>
+      runPhase("restart", async () => {
+        await app.stop();
+        await app.start();
+        logger.info("Server restarted", { phase: "restart" });
+      }),
   };
 
   return app;
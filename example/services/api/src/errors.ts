@@ -1,28 +1,153 @@
+import type { ZodIssue } from "zod";
+
+type AppErrorOptions = {
+  // URI reference identifying this occurrence; defaults to the request path when the error is sent.
+  instance?: string;
+};
+
+// Mirrors the RFC 9457 problem fields: type and title describe the kind of error, detail and instance this occurrence.
 export class AppError extends Error {
   readonly statusCode: number;
   readonly code: string;
+  readonly type: string;
+  readonly title: string;
+  readonly detail: string;
+  readonly instance?: string;
 
-  constructor(statusCode: number, code: string, message: string) {
-    super(message);
+  constructor(
+    statusCode: number,
+    code: string,
+    title: string,
+    detail: string,
+    options: AppErrorOptions = {},
+  ) {
+    super(detail);
     this.statusCode = statusCode;
     this.code = code;
+    // Relative to the public base URL, so each code gets one stable problem type.
+    this.type = `/problems/${code.toLowerCase().replaceAll("_", "-")}`;
+    this.title = title;
+    this.detail = detail;
+    this.instance = options.instance;
   }
 }
 
+export type ValidationLocation = "params" | "query" | "headers" | "body";
+
+type ValidationErrorOptions = AppErrorOptions & {
+  location?: ValidationLocation;
+  issues?: ZodIssue[];
+};
+
 export class ValidationError extends AppError {
+  readonly location?: ValidationLocation;
+  readonly issues: ZodIssue[];
+
+  constructor(message: string, options: ValidationErrorOptions = {}) {
+    super(400, "VALIDATION_ERROR", "Validation failed", message, options);
+    this.location = options.location;
+    this.issues = options.issues ?? [];
+  }
+}
+
+export class UnauthorizedError extends AppError {
   constructor(message: string) {
-    super(400, "VALIDATION_ERROR", message);
+    super(401, "UNAUTHORIZED", "Authentication required", message);
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message: string) {
+    super(403, "FORBIDDEN", "Insufficient scope", message);
   }
 }
 
 export class NotFoundError extends AppError {
   constructor(message: string) {
-    super(404, "NOT_FOUND", message);
+    super(404, "NOT_FOUND", "Resource not found", message);
+  }
+}
+
+export class MethodNotAllowedError extends AppError {
+  constructor(message: string) {
+    super(405, "METHOD_NOT_ALLOWED", "Method not allowed", message);
+  }
+}
+
+export class NotAcceptableError extends AppError {
+  constructor(message: string) {
+    super(406, "NOT_ACCEPTABLE", "No acceptable representation", message);
+  }
+}
+
+export class PayloadTooLargeError extends AppError {
+  constructor(message: string) {
+    super(413, "PAYLOAD_TOO_LARGE", "Payload too large", message);
+  }
+}
+
+export class UnsupportedMediaTypeError extends AppError {
+  constructor(message: string) {
+    super(415, "UNSUPPORTED_MEDIA_TYPE", "Unsupported media type", message);
+  }
+}
+
+export class PreconditionFailedError extends AppError {
+  constructor(message: string) {
+    super(412, "PRECONDITION_FAILED", "Precondition failed", message);
+  }
+}
+
+export class PatchFailedError extends AppError {
+  constructor(message: string) {
+    super(422, "PATCH_FAILED", "Patch could not be applied", message);
+  }
+}
+
+export class IdempotencyKeyReusedError extends AppError {
+  constructor(message: string) {
+    super(422, "IDEMPOTENCY_KEY_REUSED", "Idempotency key reused", message);
+  }
+}
+
+export class BatchRolledBackError extends AppError {
+  constructor(message: string) {
+    super(424, "BATCH_ROLLED_BACK", "Batch rolled back", message);
+  }
+}
+
+export class TooManyRequestsError extends AppError {
+  constructor(message: string) {
+    super(429, "RATE_LIMITED", "Rate limit exceeded", message);
   }
 }
 
 export class ConflictError extends AppError {
   constructor(message: string) {
-    super(409, "CONFLICT", message);
+    super(409, "CONFLICT", "Conflict", message);
+  }
+}
+
+export class ClientClosedRequestError extends AppError {
+  constructor(message: string) {
+    super(499, "CLIENT_CLOSED_REQUEST", "Client closed request", message);
+  }
+}
+
+export class InternalServerError extends AppError {
+  constructor(message: string) {
+    super(500, "INTERNAL_SERVER_ERROR", "Internal server error", message);
+  }
+}
+
+export class ServiceUnavailableError extends AppError {
+  constructor(message: string) {
+    super(503, "SERVICE_UNAVAILABLE", "Service unavailable", message);
+  }
+}
+
+export class DeadlineExceededError extends AppError {
+  constructor(message: string) {
+    super(504, "DEADLINE_EXCEEDED", "Deadline exceeded", message);
   }
 }
@@ -0,0 +1,24 @@
+import { writeFile } from "node:fs/promises";
+import path from "node:path";
+import { createClientSource } from "./utils/createClientSource.ts";
+import { createOpenApiDocument } from "./utils/openapi.ts";
+
+async function main() {
+  const outputPath = process.argv[2];
+  if (!outputPath) {
+    throw new Error("Usage: node src/generateClient.ts <path/to/client.ts>");
+  }
+
+  const source = createClientSource(await createOpenApiDocument());
+  await writeFile(path.resolve(outputPath), source);
+  console.log(`Wrote todo API client to ${outputPath}`);
+}
+
+main().catch((error) => {
+  if (error instanceof Error) {
+    console.error(error.stack ?? error.message);
+  } else {
+    console.error(String(error));
+  }
+  process.exit(1);
+});
@@ -6,7 +6,6 @@ async function main() {
   const app = createServer(config);
 
   await app.start();
-  console.log(`Todo API listening on ${config.publicBaseUrl}`);
 
   const shutdown = async () => {
     await app.stop();
@@ -1,11 +1,42 @@
 import { randomUUID } from "node:crypto";
-import { ConflictError, NotFoundError } from "../errors.ts";
-import type {
-  CreateTodoInput,
-  Todo,
-  UpdateTodoInput,
+import { z } from "zod";
+import {
+  AppError,
+  BatchRolledBackError,
+  ConflictError,
+  NotFoundError,
+  PatchFailedError,
+  PreconditionFailedError,
+  ValidationError,
+} from "../errors.ts";
+import {
+  type CreateTodoInput,
+  type ListTodosQuery,
+  type SearchTodosQuery,
+  type Todo,
+  type TodoBatchInput,
+  type TodoBatchOperation,
+  type TodoBatchResponse,
+  type TodoBatchResult,
+  type TodoListResponse,
+  TodoSchema,
+  type TodoSearchResponse,
+  type UpdateTodoInput,
 } from "../schemas/todos.ts";
 import type { Context } from "../types.ts";
+import { matchesIfMatch, toEtag } from "../utils/etag.ts";
+import { withSpan } from "../utils/tracing.ts";
+
+// The request's signal is checked right before the store write, so work the client has
+// already been answered for (a 504 or 503) never commits.
+type WriteOptions = {
+  ifMatch?: string;
+  signal?: AbortSignal;
+};
+
+type BatchOptions = {
+  signal?: AbortSignal;
+};
 
 function assertContextAlive(context: Context): void {
   if (!context.lifecycle.alive) {
@@ -13,97 +44,390 @@ function assertContextAlive(context: Context): void {
   }
 }
 
-export async function listTodos(context: Context): Promise<Todo[]> {
-  assertContextAlive(context);
-  return context.db.todos.getAll();
+function assertIfMatch(todo: Todo, options: WriteOptions): void {
+  if (
+    options.ifMatch !== undefined &&
+    !matchesIfMatch(options.ifMatch, toEtag(todo))
+  ) {
+    throw new PreconditionFailedError("Todo has been modified");
+  }
 }
 
-export async function getTodoById(
-  context: Context,
-  todoId: string,
-): Promise<Todo> {
-  assertContextAlive(context);
+// Another owner's todo is reported as missing so ids cannot be probed across tenants.
+function getOwnedTodo(context: Context, ownerId: string, todoId: string): Todo {
   const todo = context.db.todos.getById(todoId);
-  if (!todo) {
+  if (!todo || todo.ownerId !== ownerId) {
     throw new NotFoundError("Todo not found");
   }
   return todo;
 }
 
+function assertUniqueTitle(
+  context: Context,
+  ownerId: string,
+  todoId: string,
+  title: string,
+): void {
+  const duplicate = context.db.todos
+    .getAll(ownerId)
+    .find(
+      (todo) =>
+        todo.id !== todoId && todo.title.toLowerCase() === title.toLowerCase(),
+    );
+
+  if (duplicate) {
+    throw new ConflictError("Todo title must be unique");
+  }
+}
+
+const CursorSchema = z.object({
+  sort: z.enum(["createdAt", "updatedAt", "title"]),
+  direction: z.enum(["asc", "desc"]),
+  value: z.string(),
+  id: z.string(),
+});
+
+type Cursor = z.infer<typeof CursorSchema>;
+
+function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(encoded: string, query: ListTodosQuery): Cursor {
+  let cursor: Cursor;
+  try {
+    cursor = CursorSchema.parse(
+      JSON.parse(Buffer.from(encoded, "base64url").toString("utf8")),
+    );
+  } catch {
+    throw new ValidationError("Invalid cursor");
+  }
+
+  if (cursor.sort !== query.sort || cursor.direction !== query.direction) {
+    throw new ValidationError("Cursor was issued for a different sort order");
+  }
+  return cursor;
+}
+
+export async function listTodos(
+  context: Context,
+  ownerId: string,
+  query: ListTodosQuery,
+): Promise<TodoListResponse> {
+  return withSpan(context, "todos.list", async (context) => {
+    assertContextAlive(context);
+
+    const cursor = query.cursor ? decodeCursor(query.cursor, query) : undefined;
+    // One extra row tells us whether another page exists without a separate count.
+    const todos = context.db.todos.query({
+      ownerId,
+      completed: query.completed,
+      createdAfter: query.createdAfter,
+      createdBefore: query.createdBefore,
+      sort: query.sort,
+      direction: query.direction,
+      after: cursor ? { value: cursor.value, id: cursor.id } : undefined,
+      limit: query.limit + 1,
+    });
+
+    if (todos.length <= query.limit) {
+      return { todos, nextCursor: null };
+    }
+
+    const page = todos.slice(0, query.limit);
+    const last = page[page.length - 1];
+    return {
+      todos: page,
+      nextCursor: encodeCursor({
+        sort: query.sort,
+        direction: query.direction,
+        value: last[query.sort],
+        id: last.id,
+      }),
+    };
+  });
+}
+
+export async function searchTodos(
+  context: Context,
+  ownerId: string,
+  query: SearchTodosQuery,
+): Promise<TodoSearchResponse> {
+  return withSpan(context, "todos.search", async (context) => {
+    assertContextAlive(context);
+    return { results: context.db.todos.search(ownerId, query.q, query.limit) };
+  });
+}
+
+export async function getTodoById(
+  context: Context,
+  ownerId: string,
+  todoId: string,
+): Promise<Todo> {
+  return withSpan(
+    context,
+    "todos.getById",
+    async (context) => {
+      assertContextAlive(context);
+      return getOwnedTodo(context, ownerId, todoId);
+    },
+    { attributes: { "todo.id": todoId } },
+  );
+}
+
 export async function createTodo(
   context: Context,
+  ownerId: string,
   input: CreateTodoInput,
+  options: WriteOptions = {},
 ): Promise<Todo> {
-  assertContextAlive(context);
+  return withSpan(context, "todos.create", async (context) => {
+    assertContextAlive(context);
 
-  const existing = context.db.todos
-    .getAll()
-    .find((todo) => todo.title.toLowerCase() === input.title.toLowerCase());
+    const existing = context.db.todos
+      .getAll(ownerId)
+      .find((todo) => todo.title.toLowerCase() === input.title.toLowerCase());
 
-  if (existing) {
-    throw new ConflictError("Todo title must be unique");
-  }
+    if (existing) {
+      throw new ConflictError("Todo title must be unique");
+    }
 
-  const now = new Date().toISOString();
-  const todo: Todo = {
-    id: randomUUID(),
-    title: input.title,
-    completed: false,
-    createdAt: now,
-    updatedAt: now,
-  };
+    const now = new Date().toISOString();
+    const todo: Todo = {
+      id: randomUUID(),
+      ownerId,
+      title: input.title,
+      completed: false,
+      createdAt: now,
+      updatedAt: now,
+      version: 1,
+    };
 
-  context.db.todos.insert(todo);
-  return todo;
+    options.signal?.throwIfAborted();
+    context.db.todos.insert(todo);
+    return todo;
+  });
 }
 
 export async function updateTodo(
   context: Context,
+  ownerId: string,
   todoId: string,
   input: UpdateTodoInput,
+  options: WriteOptions = {},
 ): Promise<Todo> {
-  assertContextAlive(context);
+  return withSpan(
+    context,
+    "todos.update",
+    async (context) => {
+      assertContextAlive(context);
 
-  const current = context.db.todos.getById(todoId);
-  if (!current) {
-    throw new NotFoundError("Todo not found");
-  }
+      const current = getOwnedTodo(context, ownerId, todoId);
+      assertIfMatch(current, options);
 
-  if (
-    input.title &&
-    input.title.toLowerCase() !== current.title.toLowerCase()
-  ) {
-    const duplicate = context.db.todos
-      .getAll()
-      .find(
-        (todo) =>
-          todo.id !== todoId &&
-          todo.title.toLowerCase() === input.title?.toLowerCase(),
+      if (
+        input.title &&
+        input.title.toLowerCase() !== current.title.toLowerCase()
+      ) {
+        assertUniqueTitle(context, ownerId, todoId, input.title);
+      }
+
+      const updated: Todo = {
+        ...current,
+        ...input,
+        updatedAt: new Date().toISOString(),
+        version: current.version + 1,
+      };
+
+      options.signal?.throwIfAborted();
+      context.db.todos.replace(updated);
+      return updated;
+    },
+    { attributes: { "todo.id": todoId } },
+  );
+}
+
+const readOnlyFields = [
+  "id",
+  "ownerId",
+  "createdAt",
+  "updatedAt",
+  "version",
+] as const;
+
+export async function patchTodo(
+  context: Context,
+  ownerId: string,
+  todoId: string,
+  applyPatch: (todo: Todo) => unknown,
+  options: WriteOptions = {},
+): Promise<Todo> {
+  return withSpan(
+    context,
+    "todos.patch",
+    async (context) => {
+      assertContextAlive(context);
+
+      const current = getOwnedTodo(context, ownerId, todoId);
+      assertIfMatch(current, options);
+
+      const result = TodoSchema.strict().safeParse(applyPatch(current));
+      if (!result.success) {
+        const issues = result.error.issues.map(
+          (issue) => `${issue.path.join(".") || "todo"}: ${issue.message}`,
+        );
+        throw new PatchFailedError(
+          `Patched todo is invalid. ${issues.join("; ")}`,
+        );
+      }
+
+      const patched = result.data;
+      const changedField = readOnlyFields.find(
+        (field) => patched[field] !== current[field],
       );
+      if (changedField) {
+        throw new PatchFailedError(`${changedField} cannot be patched`);
+      }
 
-    if (duplicate) {
-      throw new ConflictError("Todo title must be unique");
-    }
-  }
+      if (patched.title.toLowerCase() !== current.title.toLowerCase()) {
+        assertUniqueTitle(context, ownerId, todoId, patched.title);
+      }
 
-  const updated: Todo = {
-    ...current,
-    ...input,
-    updatedAt: new Date().toISOString(),
-  };
+      const updated: Todo = {
+        ...patched,
+        updatedAt: new Date().toISOString(),
+        version: current.version + 1,
+      };
 
-  context.db.todos.replace(updated);
-  return updated;
+      options.signal?.throwIfAborted();
+      context.db.todos.replace(updated);
+      return updated;
+    },
+    { attributes: { "todo.id": todoId } },
+  );
 }
 
 export async function deleteTodo(
   context: Context,
+  ownerId: string,
   todoId: string,
+  options: WriteOptions = {},
 ): Promise<void> {
-  assertContextAlive(context);
-  const current = context.db.todos.getById(todoId);
-  if (!current) {
-    throw new NotFoundError("Todo not found");
+  return withSpan(
+    context,
+    "todos.delete",
+    async (context) => {
+      assertContextAlive(context);
+      const current = getOwnedTodo(context, ownerId, todoId);
+      assertIfMatch(current, options);
+      options.signal?.throwIfAborted();
+      context.db.todos.deleteById(todoId);
+    },
+    { attributes: { "todo.id": todoId } },
+  );
+}
+
+async function runBatchOperation(
+  context: Context,
+  ownerId: string,
+  operation: TodoBatchOperation,
+  options: BatchOptions,
+): Promise<TodoBatchResult> {
+  if (operation.op === "create") {
+    return {
+      status: 201,
+      todo: await createTodo(context, ownerId, operation.body, options),
+    };
+  }
+  if (operation.op === "update") {
+    return {
+      status: 200,
+      todo: await updateTodo(
+        context,
+        ownerId,
+        operation.todoId,
+        operation.body,
+        options,
+      ),
+    };
+  }
+  await deleteTodo(context, ownerId, operation.todoId, options);
+  return { status: 204 };
+}
+
+function toFailedResult(error: unknown): TodoBatchResult {
+  // Only expected application errors become per-operation results; anything else fails the request.
+  if (!(error instanceof AppError)) {
+    throw error;
   }
-  context.db.todos.deleteById(todoId);
+  return {
+    status: error.statusCode,
+    error: { error: error.message, code: error.code },
+  };
+}
+
+class BatchRollback extends Error {}
+
+const rolledBackResult = toFailedResult(
+  new BatchRolledBackError(
+    "Rolled back because another operation in the batch failed",
+  ),
+);
+
+export async function runTodoBatch(
+  context: Context,
+  ownerId: string,
+  batch: TodoBatchInput,
+  options: BatchOptions = {},
+): Promise<TodoBatchResponse> {
+  return withSpan(context, "todos.runBatch", async (context) => {
+    assertContextAlive(context);
+
+    if (!batch.atomic) {
+      const results: TodoBatchResult[] = [];
+      for (const operation of batch.operations) {
+        // Checked outside the per-operation catch so an abort stops the batch instead of becoming a result.
+        options.signal?.throwIfAborted();
+        try {
+          results.push(
+            await runBatchOperation(context, ownerId, operation, options),
+          );
+        } catch (error) {
+          results.push(toFailedResult(error));
+        }
+      }
+      return { committed: true, results };
+    }
+
+    let failure: { index: number; result: TodoBatchResult } | undefined;
+    try {
+      return await context.db.transaction(async (transaction) => {
+        const results: TodoBatchResult[] = [];
+        for (const [index, operation] of batch.operations.entries()) {
+          options.signal?.throwIfAborted();
+          try {
+            results.push(
+              await runBatchOperation(transaction, ownerId, operation, options),
+            );
+          } catch (error) {
+            failure = { index, result: toFailedResult(error) };
+            throw new BatchRollback();
+          }
+        }
+        options.signal?.throwIfAborted();
+        return { committed: true, results };
+      });
+    } catch (error) {
+      if (!(error instanceof BatchRollback) || !failure) {
+        throw error;
+      }
+      const failed = failure;
+      return {
+        committed: false,
+        results: batch.operations.map((_, index) =>
+          index === failed.index ? failed.result : rolledBackResult,
+        ),
+      };
+    }
+  });
 }
@@ -0,0 +1,8 @@
+import { z } from "zod";
+
+// The single list of scopes; API key config, access tokens and controllers all draw from it.
+export const AuthScopeSchema = z.enum([
+  "todos:read",
+  "todos:write",
+  "metrics:read",
+]);
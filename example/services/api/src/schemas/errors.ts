@@ -0,0 +1,29 @@
+import { z } from "zod";
+
+export const ErrorResponseSchema = z.object({
+  error: z.string(),
+  code: z.string(),
+  details: z.array(z.unknown()).optional(),
+});
+
+export type ErrorResponse = z.infer<typeof ErrorResponseSchema>;
+
+export const ProblemErrorSchema = z.object({
+  detail: z.string(),
+  pointer: z.string().optional(),
+  parameter: z.string().optional(),
+  header: z.string().optional(),
+});
+
+// RFC 9457 problem details, extended with the machine-readable code and per-field errors.
+export const ProblemSchema = z.object({
+  type: z.string().url(),
+  title: z.string(),
+  status: z.number().int(),
+  detail: z.string(),
+  instance: z.string().optional(),
+  code: z.string(),
+  errors: z.array(ProblemErrorSchema).optional(),
+});
+
+export type Problem = z.infer<typeof ProblemSchema>;
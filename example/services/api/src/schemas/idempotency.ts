@@ -0,0 +1,5 @@
+import { z } from "zod";
+
+export const IdempotencyHeadersSchema = z.object({
+  "idempotency-key": z.string().min(1).max(255).optional(),
+});
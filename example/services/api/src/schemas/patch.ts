@@ -0,0 +1,31 @@
+import { z } from "zod";
+
+export const MergePatchSchema = z.record(z.unknown());
+
+// RFC 6902 requires a value member on add, replace and test; a missing member parses as undefined.
+const PatchValueSchema = z
+  .unknown()
+  .refine((value) => value !== undefined, "Required");
+
+export const JsonPatchOperationSchema = z.discriminatedUnion("op", [
+  z.object({ op: z.literal("add"), path: z.string(), value: PatchValueSchema }),
+  z.object({ op: z.literal("remove"), path: z.string() }),
+  z.object({
+    op: z.literal("replace"),
+    path: z.string(),
+    value: PatchValueSchema,
+  }),
+  z.object({ op: z.literal("move"), from: z.string(), path: z.string() }),
+  z.object({ op: z.literal("copy"), from: z.string(), path: z.string() }),
+  z.object({
+    op: z.literal("test"),
+    path: z.string(),
+    value: PatchValueSchema,
+  }),
+]);
+
+export const JsonPatchSchema = z.array(JsonPatchOperationSchema);
+
+export type MergePatch = z.infer<typeof MergePatchSchema>;
+export type JsonPatchOperation = z.infer<typeof JsonPatchOperationSchema>;
+export type JsonPatch = z.infer<typeof JsonPatchSchema>;
@@ -1,20 +1,27 @@
 import { z } from "zod";
+import { ErrorResponseSchema } from "./errors.ts";
+import { JsonPatchSchema, MergePatchSchema } from "./patch.ts";
+
+// Shared by stored todos and every write input, so no write path can store a longer title.
+const TodoTitleSchema = z.string().min(1).max(200);
 
 export const TodoSchema = z.object({
   id: z.string().uuid(),
-  title: z.string().min(1),
+  ownerId: z.string().min(1),
+  title: TodoTitleSchema,
   completed: z.boolean(),
   createdAt: z.string().datetime(),
   updatedAt: z.string().datetime(),
+  version: z.number().int().positive(),
 });
 
 export const CreateTodoSchema = z.object({
-  title: z.string().min(1).max(200),
+  title: TodoTitleSchema,
 });
 
 export const UpdateTodoSchema = z
   .object({
-    title: z.string().min(1).max(200).optional(),
+    title: TodoTitleSchema.optional(),
     completed: z.boolean().optional(),
   })
   .refine(
@@ -24,15 +31,89 @@ export const UpdateTodoSchema = z
     },
   );
 
+export const TodoPatchSchema = z.union([MergePatchSchema, JsonPatchSchema]);
+
+export const TodoBatchOperationSchema = z.discriminatedUnion("op", [
+  z.object({ op: z.literal("create"), body: CreateTodoSchema }),
+  z.object({
+    op: z.literal("update"),
+    todoId: z.string().uuid(),
+    body: UpdateTodoSchema,
+  }),
+  z.object({ op: z.literal("delete"), todoId: z.string().uuid() }),
+]);
+
+export const TodoBatchSchema = z.object({
+  atomic: z.boolean().default(true),
+  operations: z.array(TodoBatchOperationSchema).min(1).max(500),
+});
+
+export const TodoBatchResultSchema = z.object({
+  status: z.number().int(),
+  todo: TodoSchema.optional(),
+  error: ErrorResponseSchema.optional(),
+});
+
+export const TodoBatchResponseSchema = z.object({
+  committed: z.boolean(),
+  results: z.array(TodoBatchResultSchema),
+});
+
 export const TodoParamsSchema = z.object({
   todoId: z.string().uuid(),
 });
 
+export const TodoReadHeadersSchema = z.object({
+  "if-none-match": z.string().optional(),
+});
+
+export const TodoWriteHeadersSchema = z.object({
+  "if-match": z.string().optional(),
+});
+
+export const ListTodosQuerySchema = z.object({
+  completed: z
+    .enum(["true", "false"])
+    .transform((value) => value === "true")
+    .optional(),
+  createdAfter: z.string().datetime({ offset: true }).optional(),
+  createdBefore: z.string().datetime({ offset: true }).optional(),
+  sort: z.enum(["createdAt", "updatedAt", "title"]).default("createdAt"),
+  direction: z.enum(["asc", "desc"]).default("asc"),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  cursor: z.string().min(1).optional(),
+});
+
+export const SearchTodosQuerySchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+export const TodoSearchResponseSchema = z.object({
+  results: z.array(
+    z.object({
+      score: z.number(),
+      todo: TodoSchema,
+    }),
+  ),
+});
+
 export const TodoListResponseSchema = z.object({
   todos: z.array(TodoSchema),
+  nextCursor: z.string().nullable(),
 });
 
 export type Todo = z.infer<typeof TodoSchema>;
 export type CreateTodoInput = z.infer<typeof CreateTodoSchema>;
 export type UpdateTodoInput = z.infer<typeof UpdateTodoSchema>;
+export type TodoPatch = z.infer<typeof TodoPatchSchema>;
+export type TodoBatchOperation = z.infer<typeof TodoBatchOperationSchema>;
+export type TodoBatchInput = z.output<typeof TodoBatchSchema>;
+export type TodoBatchResult = z.infer<typeof TodoBatchResultSchema>;
+export type TodoBatchResponse = z.infer<typeof TodoBatchResponseSchema>;
 export type TodoParams = z.infer<typeof TodoParamsSchema>;
+export type ListTodosQuery = z.output<typeof ListTodosQuerySchema>;
+export type TodoListResponse = z.infer<typeof TodoListResponseSchema>;
+export type SearchTodosQuery = z.output<typeof SearchTodosQuerySchema>;
+export type TodoSearchResponse = z.infer<typeof TodoSearchResponseSchema>;
+export type TodoWriteHeaders = z.infer<typeof TodoWriteHeadersSchema>;
@@ -1,25 +1,259 @@
 import type http from "node:http";
+import type { z } from "zod";
+import type { AuthScopeSchema } from "./schemas/auth.ts";
+
+export type AuthScope = z.infer<typeof AuthScopeSchema>;
+
+export type ApiKeyConfig = {
+  id: string;
+  key: string;
+  scopes: AuthScope[];
+};
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogFields = Record<string, unknown>;
+
+export type Logger = {
+  debug: (message: string, fields?: LogFields) => void;
+  info: (message: string, fields?: LogFields) => void;
+  warn: (message: string, fields?: LogFields) => void;
+  error: (message: string, fields?: LogFields) => void;
+  // Returns a logger that adds these fields to every line.
+  child: (fields: LogFields) => Logger;
+  // Resolves once every line written so far has reached the destination.
+  flush: () => Promise<void>;
+};
+
+// The logger a context owns: children share its file, so only the owner may close it.
+export type ManagedLogger = Logger & {
+  close: () => Promise<void>;
+};
+
+export type MetricLabels = Record<string, string>;
+
+export type Counter = {
+  inc: (labels?: MetricLabels, amount?: number) => void;
+};
+
+export type Gauge = {
+  set: (value: number, labels?: MetricLabels) => void;
+};
+
+export type Histogram = {
+  observe: (value: number, labels?: MetricLabels) => void;
+};
+
+export type MetricsRegistry = {
+  counter: (name: string, help: string) => Counter;
+  // A gauge with collect is read when metrics are rendered instead of being set.
+  gauge: (name: string, help: string, collect?: () => number) => Gauge;
+  histogram: (name: string, help: string, buckets?: number[]) => Histogram;
+  // Prometheus text exposition format, version 0.0.4.
+  render: () => string;
+  // Resets recorded values; registered metrics stay registered.
+  clear: () => void;
+};
+
+export type TraceContext = {
+  traceId: string;
+  spanId: string;
+  sampled: boolean;
+  traceState?: string;
+};
+
+export type SpanKind = "server" | "internal" | "client";
+
+export type SpanAttributeValue = string | number | boolean;
+
+export type SpanRecord = {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: SpanKind;
+  // Unix epoch milliseconds with sub-millisecond precision.
+  startTime: number;
+  endTime: number;
+  attributes: Record<string, SpanAttributeValue>;
+  status: { code: "unset" | "ok" | "error"; message?: string };
+};
+
+export type Span = {
+  context: TraceContext;
+  setAttribute: (name: string, value: SpanAttributeValue) => void;
+  updateName: (name: string) => void;
+  setStatus: (code: "ok" | "error", message?: string) => void;
+  recordError: (error: unknown) => void;
+  end: () => void;
+};
+
+export type SpanExporter = {
+  export: (span: SpanRecord) => void;
+  // Resolves once every span handed to export so far has been delivered or given up on.
+  flush: () => Promise<void>;
+  // Sends what is buffered, then aborts any export still in flight after the export timeout.
+  shutdown: () => Promise<void>;
+};
+
+// negotiate picks between the two by the request's Accept header.
+export type ErrorFormat = "problem" | "json" | "negotiate";
+
+export type TodoStoreBackend = "memory" | "file";
+
+// always syncs every write, interval syncs dirty logs on a timer, never leaves it to the OS.
+export type FsyncPolicy = "always" | "interval" | "never";
 
 export type Config = {
   todoApiPort: number;
   publicBaseUrl: string;
   maxBodyBytes: number;
+  compressionThresholdBytes: number;
+  idempotencyKeyTtlMs: number;
+  rateLimitCapacity: number;
+  rateLimitRefillPerSecond: number;
+  rateLimitCleanupIntervalMs: number;
+  requestTimeoutMs: number;
+  logLevel: LogLevel | "silent";
+  logDestination: string;
+  // OTLP/HTTP JSON traces endpoint; null disables span export.
+  otlpTracesUrl: string | null;
+  otlpExportTimeoutMs: number;
+  authTokenSecret: string;
+  apiKeys: ApiKeyConfig[];
+  errorFormat: ErrorFormat;
+  todoStore: TodoStoreBackend;
+  // The file backend keeps its snapshot and operation log here.
+  dataDirectory: string;
+  fsyncPolicy: FsyncPolicy;
+  fsyncIntervalMs: number;
+  snapshotEveryOperations: number;
+};
+
+export type Principal = {
+  // Prefixed by credential type (user:<sub> or apiKey:<id>) so a token subject can never alias an API key.
+  id: string;
+  scopes: AuthScope[];
+  credential: "bearer" | "apiKey";
 };
 
 export type TodoRecord = {
   id: string;
+  ownerId: string;
   title: string;
   completed: boolean;
   createdAt: string;
   updatedAt: string;
+  version: number;
 };
 
+export type TodoSortField = "createdAt" | "updatedAt" | "title";
+
+export type TodoQuery = {
+  ownerId: string;
+  completed?: boolean;
+  createdAfter?: string;
+  createdBefore?: string;
+  sort: TodoSortField;
+  direction: "asc" | "desc";
+  // Keyset position: only todos ordered strictly after this sort value and id are returned.
+  after?: { value: string; id: string };
+  limit: number;
+};
+
+export type SearchMatch = {
+  id: string;
+  score: number;
+};
+
+export type SearchIndex = {
+  add: (id: string, text: string) => void;
+  remove: (id: string) => void;
+  search: (text: string, limit: number) => SearchMatch[];
+  clear: () => void;
+};
+
+export type TodoSearchResult = {
+  todo: TodoRecord;
+  score: number;
+};
+
+export type TodoWrite =
+  | { op: "put"; todo: TodoRecord }
+  | { op: "delete"; id: string };
+
+// Collection reads are scoped to one owner; callers check ownerId on records fetched by id.
 export type TodoStore = {
-  getAll: () => TodoRecord[];
+  getAll: (ownerId: string) => TodoRecord[];
+  query: (query: TodoQuery) => TodoRecord[];
+  search: (ownerId: string, text: string, limit: number) => TodoSearchResult[];
   getById: (id: string) => TodoRecord | undefined;
   insert: (todo: TodoRecord) => void;
   replace: (todo: TodoRecord) => void;
   deleteById: (id: string) => void;
+  // Applies the writes as one unit, so a durable store never keeps only part of them.
+  applyWrites: (writes: TodoWrite[]) => void;
+};
+
+// The store a context owns: close releases it without deleting anything it persisted.
+export type ManagedTodoStore = TodoStore & {
+  count: () => number;
+  close: () => Promise<void>;
+};
+
+export type UploadedFile = {
+  filename: string;
+  contentType: string;
+  path: string;
+  size: number;
+};
+
+export type TemporaryFileStore = {
+  create: () => Promise<string>;
+  remove: (paths: string[]) => Promise<void>;
+  removeAll: () => Promise<void>;
+};
+
+export type SentJsonResponse = {
+  statusCode: number;
+  body: unknown;
+  contentType: string;
+};
+
+export type IdempotencyRecord = {
+  fingerprint: string;
+  // Absent while the first request with the key is still running.
+  response?: SentJsonResponse;
+};
+
+export type IdempotencyStore = {
+  get: (key: string) => IdempotencyRecord | undefined;
+  start: (key: string, fingerprint: string) => void;
+  complete: (key: string, response: SentJsonResponse) => void;
+  release: (key: string) => void;
+  clear: () => void;
+};
+
+export type RateLimitDecision = {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Seconds until the bucket is full again.
+  resetSeconds: number;
+  retryAfterSeconds: number;
+};
+
+export type RateLimiter = {
+  take: (key: string, cost: number) => RateLimitDecision;
+  clear: () => void;
+};
+
+export type Database = {
+  todos: TodoStore;
+  // Runs work against a context whose writes are committed together, or not at all if work throws.
+  transaction: <TResult>(
+    work: (context: Context) => Promise<TResult>,
+  ) => Promise<TResult>;
 };
 
 export type LifecycleState = {
@@ -28,34 +262,97 @@ export type LifecycleState = {
 
 export type Context = {
   config: Config;
-  db: {
-    todos: TodoStore;
-  };
+  db: Database;
   lifecycle: LifecycleState;
+  logger: Logger;
+  metrics: MetricsRegistry;
+  spanExporter: SpanExporter;
+  // The active span while handling a request; new spans become its children.
+  trace?: TraceContext;
+  temporaryFiles: TemporaryFileStore;
+  idempotencyKeys: IdempotencyStore;
+  rateLimiter: RateLimiter;
+  // Aborted together when the server stops so in-flight handlers can wind down.
+  inFlightRequests: Set<AbortController>;
   destroy: () => Promise<void>;
 };
 
 export type ControllerOpenApi = {
+  operationId: string;
   summary: string;
+  description?: string;
   responses: Record<string, unknown>;
   requestBody?: unknown;
 };
 
-export type ControllerModule = {
-  schema?: {
-    params?: unknown;
-    query?: unknown;
-    body?: unknown;
-    response?: unknown;
-  };
+export type ResponseFormat =
+  | "application/json"
+  | "application/x-ndjson"
+  | "text/csv";
+
+export type BodyContentType =
+  | "application/json"
+  | "application/x-www-form-urlencoded"
+  | "multipart/form-data"
+  | "application/merge-patch+json"
+  | "application/json-patch+json";
+
+export type ControllerSchema = {
+  params?: z.ZodTypeAny;
+  query?: z.ZodTypeAny;
+  headers?: z.ZodTypeAny;
+  body?: z.ZodTypeAny;
+  response?: z.ZodTypeAny;
+  row?: z.ZodTypeAny;
+};
+
+type InferSchemaField<
+  TSchema extends ControllerSchema,
+  TField extends keyof ControllerSchema,
+> = TSchema[TField] extends z.ZodTypeAny ? z.output<TSchema[TField]> : unknown;
+
+// "public" routes skip authentication; any other route needs a principal holding every listed scope.
+export type ControllerAuth = "public" | { scopes: AuthScope[] };
+
+type InferPrincipal<TAuth extends ControllerAuth> = [TAuth] extends ["public"]
+  ? undefined
+  : [TAuth] extends [{ scopes: AuthScope[] }]
+    ? Principal
+    : Principal | undefined;
+
+export type HandlerArgs<
+  TSchema extends ControllerSchema = ControllerSchema,
+  TAuth extends ControllerAuth = ControllerAuth,
+> = {
+  context: Context;
+  principal: InferPrincipal<TAuth>;
+  request: http.IncomingMessage;
+  response: http.ServerResponse;
+  // Fires when the client disconnects, the request deadline passes or the server stops.
+  signal: AbortSignal;
+  params: InferSchemaField<TSchema, "params">;
+  query: InferSchemaField<TSchema, "query">;
+  headers: InferSchemaField<TSchema, "headers">;
+  body: InferSchemaField<TSchema, "body">;
+  bodyType: BodyContentType | undefined;
+  format: ResponseFormat;
+};
+
+export type ControllerModule<
+  TSchema extends ControllerSchema = ControllerSchema,
+  TAuth extends ControllerAuth = ControllerAuth,
+> = {
+  auth: TAuth;
+  schema?: TSchema;
+  formats?: ResponseFormat[];
+  bodyTypes?: BodyContentType[];
+  // Replays the first response to retries that send the same Idempotency-Key and payload.
+  idempotent?: boolean;
+  // Tokens taken from the client's rate limit bucket per request; 0 exempts the route.
+  rateLimitCost: number;
   openapi: ControllerOpenApi;
-  handler: (args: {
-    context: Context;
-    request: http.IncomingMessage;
-    response: http.ServerResponse;
-    params: unknown;
-    query: unknown;
-  }) => Promise<void>;
+  // Method syntax keeps typed controllers assignable to the untyped route table.
+  handler(args: HandlerArgs<TSchema, TAuth>): Promise<void>;
 };
 
 export type Route = {
@@ -0,0 +1,81 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { z } from "zod";
+import { UnauthorizedError } from "../errors.ts";
+import { AuthScopeSchema } from "../schemas/auth.ts";
+import type { AuthScope } from "../types.ts";
+
+type AccessTokenClaims = {
+  subject: string;
+  scopes: AuthScope[];
+  expiresAt: Date;
+};
+
+const TokenHeaderSchema = z.object({ alg: z.literal("HS256") });
+
+const TokenPayloadSchema = z.object({
+  sub: z.string().min(1),
+  scope: z.string(),
+  exp: z.number().int(),
+});
+
+function encodeSegment(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+function decodeSegment(segment: string): unknown {
+  return JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+}
+
+function sign(secret: string, content: string): Buffer {
+  return createHmac("sha256", secret).update(content).digest();
+}
+
+// Tokens are compact HS256 JWTs, so any JWT library holding the secret can mint them.
+export function signAccessToken(
+  secret: string,
+  claims: AccessTokenClaims,
+): string {
+  const content = `${encodeSegment({ alg: "HS256", typ: "JWT" })}.${encodeSegment(
+    {
+      sub: claims.subject,
+      scope: claims.scopes.join(" "),
+      exp: Math.floor(claims.expiresAt.getTime() / 1000),
+    },
+  )}`;
+  return `${content}.${sign(secret, content).toString("base64url")}`;
+}
+
+export function verifyAccessToken(
+  secret: string,
+  token: string,
+): { subject: string; scopes: AuthScope[] } {
+  const [header, payload, signature, ...rest] = token.split(".");
+  if (!header || !payload || !signature || rest.length > 0) {
+    throw new UnauthorizedError("Malformed bearer token");
+  }
+
+  const expected = sign(secret, `${header}.${payload}`);
+  const actual = Buffer.from(signature, "base64url");
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new UnauthorizedError("Invalid bearer token signature");
+  }
+
+  let claims: z.infer<typeof TokenPayloadSchema>;
+  try {
+    TokenHeaderSchema.parse(decodeSegment(header));
+    claims = TokenPayloadSchema.parse(decodeSegment(payload));
+  } catch {
+    throw new UnauthorizedError("Malformed bearer token");
+  }
+
+  if (claims.exp * 1000 <= Date.now()) {
+    throw new UnauthorizedError("Bearer token has expired");
+  }
+
+  // Unknown scopes are ignored rather than rejected so tokens can carry scopes for other services.
+  const scopes = claims.scope.split(" ").flatMap((scope) => {
+    const parsed = AuthScopeSchema.safeParse(scope);
+    return parsed.success ? [parsed.data] : [];
+  });
+  return { subject: claims.sub, scopes };
+}
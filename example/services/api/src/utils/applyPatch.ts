@@ -0,0 +1,166 @@
+import { isDeepStrictEqual } from "node:util";
+import { PatchFailedError } from "../errors.ts";
+import type { JsonPatch } from "../schemas/patch.ts";
+
+type JsonContainer = Record<string, unknown> | unknown[];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// RFC 7396: null removes a member, objects merge recursively and anything else replaces.
+export function applyMergePatch(target: unknown, patch: unknown): unknown {
+  if (!isObject(patch)) {
+    return patch;
+  }
+
+  const result: Record<string, unknown> = isObject(target) ? { ...target } : {};
+  for (const [name, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete result[name];
+    } else {
+      result[name] = applyMergePatch(result[name], value);
+    }
+  }
+  return result;
+}
+
+function parsePointer(pointer: string): string[] {
+  if (pointer === "") {
+    return [];
+  }
+  if (!pointer.startsWith("/")) {
+    throw new PatchFailedError(`Invalid JSON pointer: ${pointer}`);
+  }
+  return pointer
+    .slice(1)
+    .split("/")
+    .map((token) => token.replaceAll("~1", "/").replaceAll("~0", "~"));
+}
+
+function getChild(container: unknown, token: string, pointer: string): unknown {
+  if (Array.isArray(container) && /^(0|[1-9][0-9]*)$/.test(token)) {
+    const index = Number(token);
+    if (index < container.length) {
+      return container[index];
+    }
+  } else if (isObject(container) && Object.hasOwn(container, token)) {
+    return container[token];
+  }
+  throw new PatchFailedError(`Path does not exist: ${pointer}`);
+}
+
+function getValue(document: unknown, pointer: string): unknown {
+  return parsePointer(pointer).reduce(
+    (value, token) => getChild(value, token, pointer),
+    document,
+  );
+}
+
+function getParent(
+  document: unknown,
+  pointer: string,
+): { parent: JsonContainer; token: string } {
+  const tokens = parsePointer(pointer);
+  const token = tokens.pop();
+  if (token === undefined) {
+    throw new PatchFailedError(`Path has no parent: ${pointer}`);
+  }
+
+  const parent = tokens.reduce(
+    (value, current) => getChild(value, current, pointer),
+    document,
+  );
+  if (!Array.isArray(parent) && !isObject(parent)) {
+    throw new PatchFailedError(`Path does not exist: ${pointer}`);
+  }
+  return { parent, token };
+}
+
+function toArrayIndex(
+  parent: unknown[],
+  token: string,
+  pointer: string,
+  allowEnd: boolean,
+): number {
+  if (allowEnd && token === "-") {
+    return parent.length;
+  }
+  const limit = allowEnd ? parent.length : parent.length - 1;
+  if (!/^(0|[1-9][0-9]*)$/.test(token) || Number(token) > limit) {
+    throw new PatchFailedError(`Array index out of range: ${pointer}`);
+  }
+  return Number(token);
+}
+
+function addValue(document: unknown, pointer: string, value: unknown): void {
+  const { parent, token } = getParent(document, pointer);
+  if (Array.isArray(parent)) {
+    parent.splice(toArrayIndex(parent, token, pointer, true), 0, value);
+  } else {
+    parent[token] = value;
+  }
+}
+
+function removeValue(document: unknown, pointer: string): unknown {
+  const { parent, token } = getParent(document, pointer);
+  if (Array.isArray(parent)) {
+    return parent.splice(toArrayIndex(parent, token, pointer, false), 1)[0];
+  }
+  const removed = getChild(parent, token, pointer);
+  delete parent[token];
+  return removed;
+}
+
+// RFC 6902: operations apply in order to a copy, so a failing operation leaves the target untouched.
+export function applyJsonPatch(target: unknown, patch: JsonPatch): unknown {
+  const document = { root: structuredClone(target) };
+  const rooted = (pointer: string) => `/root${pointer}`;
+
+  for (const operation of patch) {
+    switch (operation.op) {
+      case "add":
+        addValue(document, rooted(operation.path), operation.value);
+        break;
+      case "remove":
+        removeValue(document, rooted(operation.path));
+        break;
+      case "replace":
+        removeValue(document, rooted(operation.path));
+        addValue(document, rooted(operation.path), operation.value);
+        break;
+      case "move": {
+        if (`${operation.path}/`.startsWith(`${operation.from}/`)) {
+          if (operation.path !== operation.from) {
+            throw new PatchFailedError(
+              `Cannot move ${operation.from} into one of its children`,
+            );
+          }
+          break;
+        }
+        const value = removeValue(document, rooted(operation.from));
+        addValue(document, rooted(operation.path), value);
+        break;
+      }
+      case "copy":
+        addValue(
+          document,
+          rooted(operation.path),
+          structuredClone(getValue(document, rooted(operation.from))),
+        );
+        break;
+      case "test":
+        if (
+          !isDeepStrictEqual(
+            getValue(document, rooted(operation.path)),
+            operation.value,
+          )
+        ) {
+          throw new PatchFailedError(`Test failed at ${operation.path}`);
+        }
+        break;
+    }
+  }
+
+  return document.root;
+}
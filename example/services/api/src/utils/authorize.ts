@@ -0,0 +1,77 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import type http from "node:http";
+import { ForbiddenError, UnauthorizedError } from "../errors.ts";
+import type { Context, ControllerAuth, Principal } from "../types.ts";
+import { verifyAccessToken } from "./accessTokens.ts";
+
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+function authenticate(
+  context: Context,
+  request: http.IncomingMessage,
+): Principal | undefined {
+  const authorization = request.headers.authorization;
+  if (authorization !== undefined) {
+    // RFC 9110 schemes are case-insensitive and may be followed by any run of whitespace.
+    const match = /^(\S+)\s+(\S+)$/.exec(authorization);
+    if (!match || match[1].toLowerCase() !== "bearer") {
+      throw new UnauthorizedError("Authorization header must use Bearer");
+    }
+    const { subject, scopes } = verifyAccessToken(
+      context.config.authTokenSecret,
+      match[2],
+    );
+    return { id: `user:${subject}`, scopes, credential: "bearer" };
+  }
+
+  const apiKey = request.headers["x-api-key"];
+  if (typeof apiKey === "string") {
+    // Comparing digests keeps the comparison constant-time regardless of key length.
+    const presented = digest(apiKey);
+    const match = context.config.apiKeys.find((candidate) =>
+      timingSafeEqual(digest(candidate.key), presented),
+    );
+    if (!match) {
+      throw new UnauthorizedError("Invalid API key");
+    }
+    return {
+      id: `apiKey:${match.id}`,
+      scopes: match.scopes,
+      credential: "apiKey",
+    };
+  }
+
+  return undefined;
+}
+
+export function authorize(
+  context: Context,
+  request: http.IncomingMessage,
+  response: http.ServerResponse,
+  auth: ControllerAuth,
+): Principal | undefined {
+  if (auth === "public") {
+    return undefined;
+  }
+
+  let principal: Principal | undefined;
+  try {
+    principal = authenticate(context, request);
+    if (!principal) {
+      throw new UnauthorizedError("Authentication required");
+    }
+  } catch (error) {
+    response.setHeader("www-authenticate", 'Bearer realm="todo-api"');
+    throw error;
+  }
+
+  const missingScopes = auth.scopes.filter(
+    (scope) => !principal.scopes.includes(scope),
+  );
+  if (missingScopes.length > 0) {
+    throw new ForbiddenError(`Missing scope: ${missingScopes.join(", ")}`);
+  }
+  return principal;
+}
@@ -0,0 +1,374 @@
+type JsonSchema = {
+  $ref?: string;
+  type?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: unknown[];
+  const?: unknown;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+};
+
+type OpenApiParameter = {
+  name: string;
+  in: "path" | "query" | "header";
+  required: boolean;
+  schema: JsonSchema;
+};
+
+type OpenApiOperation = {
+  operationId: string;
+  summary: string;
+  parameters?: OpenApiParameter[];
+  requestBody?: {
+    content: Record<string, { schema: JsonSchema }>;
+  };
+  responses: Record<
+    string,
+    { content?: Record<string, { schema: JsonSchema }> }
+  >;
+};
+
+export type ClientSourceDocument = {
+  paths: Record<string, Record<string, unknown>>;
+  components: { schemas: Record<string, unknown> };
+};
+
+const identifierPattern = /^[a-zA-Z_$][a-zA-Z0-9_$]*$/;
+
+function toPropertyKey(name: string): string {
+  return identifierPattern.test(name) ? name : JSON.stringify(name);
+}
+
+function indent(text: string, depth: number): string {
+  const prefix = "  ".repeat(depth);
+  return text
+    .split("\n")
+    .map((line) => (line.length > 0 ? `${prefix}${line}` : line))
+    .join("\n");
+}
+
+function toTypeScript(schema: JsonSchema): string {
+  if (schema.$ref) {
+    return schema.$ref.replace("#/components/schemas/", "");
+  }
+  if (schema.const !== undefined) {
+    return JSON.stringify(schema.const);
+  }
+  if (schema.enum) {
+    return schema.enum.map((value) => JSON.stringify(value)).join(" | ");
+  }
+  if (schema.anyOf ?? schema.oneOf) {
+    return (schema.anyOf ?? schema.oneOf ?? []).map(toTypeScript).join(" | ");
+  }
+  if (schema.allOf) {
+    return schema.allOf.map(toTypeScript).join(" & ");
+  }
+
+  switch (schema.type) {
+    case "string":
+      return "string";
+    case "number":
+    case "integer":
+      return "number";
+    case "boolean":
+      return "boolean";
+    case "null":
+      return "null";
+    case "array": {
+      const itemType = schema.items ? toTypeScript(schema.items) : "unknown";
+      return /[|&]/.test(itemType) ? `Array<${itemType}>` : `${itemType}[]`;
+    }
+    case "object": {
+      if (!schema.properties) {
+        return typeof schema.additionalProperties === "object"
+          ? `Record<string, ${toTypeScript(schema.additionalProperties)}>`
+          : "Record<string, unknown>";
+      }
+      return toObjectType(schema.properties, schema.required ?? []);
+    }
+  }
+
+  return "unknown";
+}
+
+function toObjectType(
+  properties: Record<string, JsonSchema>,
+  required: string[],
+): string {
+  const lines = Object.entries(properties).map(([name, property]) => {
+    const optional = required.includes(name) ? "" : "?";
+    return `  ${toPropertyKey(name)}${optional}: ${toTypeScript(property)};`;
+  });
+  return `{\n${lines.join("\n")}\n}`;
+}
+
+function getSuccessSchema(operation: OpenApiOperation): JsonSchema | undefined {
+  for (const [status, response] of Object.entries(operation.responses)) {
+    if (status.startsWith("2")) {
+      return response.content?.["application/json"]?.schema;
+    }
+  }
+  return undefined;
+}
+
+function hasTextSuccessBody(operation: OpenApiOperation): boolean {
+  return Object.entries(operation.responses).some(
+    ([status, response]) =>
+      status.startsWith("2") && response.content?.["text/plain"] !== undefined,
+  );
+}
+
+function hasSuccessBody(operation: OpenApiOperation): boolean {
+  return Object.entries(operation.responses).some(
+    ([status]) => status.startsWith("2") && status !== "204",
+  );
+}
+
+function createOperationSource(
+  path: string,
+  method: string,
+  operation: OpenApiOperation,
+): string {
+  const parameters = operation.parameters ?? [];
+  const pathParameters = parameters.filter(
+    (parameter) => parameter.in === "path",
+  );
+  const queryParameters = parameters.filter(
+    (parameter) => parameter.in === "query",
+  );
+  const headerParameters = parameters.filter(
+    (parameter) => parameter.in === "header",
+  );
+  const bodyContent = operation.requestBody?.content ?? {};
+  const bodyTypes = Object.keys(bodyContent);
+  // The runtime JSON-encodes every body, so only JSON media types are offered to callers.
+  const jsonBodyTypes = bodyTypes.filter(
+    (type) => type === "application/json" || type.endsWith("+json"),
+  );
+  const bodyType = jsonBodyTypes[0] ?? bodyTypes[0] ?? "application/json";
+  const bodySchema = bodyContent[bodyType]?.schema;
+  // With several JSON media types the caller picks one, since the body shape alone does not say which was meant.
+  const selectableBodyTypes = jsonBodyTypes.length > 1 ? jsonBodyTypes : [];
+
+  const inputFields: string[] = [];
+  if (pathParameters.length > 0) {
+    const properties = Object.fromEntries(
+      pathParameters.map((parameter) => [parameter.name, parameter.schema]),
+    );
+    inputFields.push(
+      `params: ${toObjectType(properties, Object.keys(properties))};`,
+    );
+  }
+  if (queryParameters.length > 0) {
+    const properties = Object.fromEntries(
+      queryParameters.map((parameter) => [parameter.name, parameter.schema]),
+    );
+    const required = queryParameters
+      .filter((parameter) => parameter.required)
+      .map((parameter) => parameter.name);
+    const optional = required.length > 0 ? "" : "?";
+    inputFields.push(
+      `query${optional}: ${toObjectType(properties, required)};`,
+    );
+  }
+  if (headerParameters.length > 0) {
+    const properties = Object.fromEntries(
+      headerParameters.map((parameter) => [parameter.name, parameter.schema]),
+    );
+    const required = headerParameters
+      .filter((parameter) => parameter.required)
+      .map((parameter) => parameter.name);
+    const optional = required.length > 0 ? "" : "?";
+    inputFields.push(
+      `headers${optional}: ${toObjectType(properties, required)};`,
+    );
+  }
+  if (selectableBodyTypes.length > 0) {
+    inputFields.push(
+      `contentType: ${selectableBodyTypes.map((type) => JSON.stringify(type)).join(" | ")};`,
+    );
+  }
+  if (bodySchema) {
+    inputFields.push(`body: ${toTypeScript(bodySchema)};`);
+  }
+
+  const successSchema = getSuccessSchema(operation);
+  const textResponse = !successSchema && hasTextSuccessBody(operation);
+  const outputType = successSchema
+    ? toTypeScript(successSchema)
+    : textResponse
+      ? "string"
+      : hasSuccessBody(operation)
+        ? "unknown"
+        : "void";
+
+  const urlPath = path.replace(
+    /\{([a-zA-Z0-9_]+)\}/g,
+    (_, name: string) => `\${encodeURIComponent(input.params.${name})}`,
+  );
+  const hasRequiredInput =
+    pathParameters.length > 0 ||
+    bodySchema !== undefined ||
+    [...queryParameters, ...headerParameters].some(
+      (parameter) => parameter.required,
+    );
+  const inputArgument =
+    inputFields.length > 0
+      ? `input: {\n${indent(inputFields.join("\n"), 1)}\n}${hasRequiredInput ? "" : " = {}"}`
+      : "";
+  const requestOptions = [
+    `method: ${JSON.stringify(method.toUpperCase())}`,
+    `path: \`${urlPath}\``,
+  ];
+  if (queryParameters.length > 0) {
+    requestOptions.push("query: input.query");
+  }
+  if (headerParameters.length > 0) {
+    requestOptions.push("headers: input.headers");
+  }
+  if (bodySchema) {
+    if (selectableBodyTypes.length > 0) {
+      requestOptions.push("contentType: input.contentType");
+    } else if (bodyType !== "application/json") {
+      requestOptions.push(`contentType: ${JSON.stringify(bodyType)}`);
+    }
+    requestOptions.push("body: input.body");
+  }
+  if (textResponse) {
+    requestOptions.push('responseType: "text"');
+  }
+
+  return [
+    `/** ${operation.summary} */`,
+    `${operation.operationId}: (${inputArgument}): Promise<${outputType}> =>`,
+    `  request<${outputType}>({`,
+    ...requestOptions.map((option) => `    ${option},`),
+    "  }),",
+  ].join("\n");
+}
+
+const runtimeSource = `export type ClientOptions = {
+  baseUrl: string;
+  headers?: Record<string, string>;
+};
+
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: string;
+  readonly details: unknown;
+
+  constructor(status: number, body: ErrorResponse) {
+    super(body.error);
+    this.status = status;
+    this.code = body.code;
+    this.details = body.details;
+  }
+}
+
+type RequestOptions = {
+  method: string;
+  path: string;
+  query?: Record<string, string | number | boolean | undefined>;
+  headers?: Record<string, string | undefined>;
+  contentType?: string;
+  body?: unknown;
+  responseType?: "json" | "text";
+};
+
+async function readErrorResponse(response: Response): Promise<ErrorResponse> {
+  try {
+    const body = (await response.json()) as Partial<ErrorResponse & Problem>;
+    if (typeof body.detail === "string" && typeof body.code === "string") {
+      return { error: body.detail, code: body.code, details: body.errors };
+    }
+    if (typeof body.error === "string" && typeof body.code === "string") {
+      return { error: body.error, code: body.code, details: body.details };
+    }
+  } catch {}
+
+  return { error: response.statusText, code: "HTTP_ERROR" };
+}`;
+
+export function createClientSource(document: ClientSourceDocument): string {
+  const typeDeclarations = Object.entries(document.components.schemas).map(
+    ([name, schema]) =>
+      `export type ${name} = ${toTypeScript(schema as JsonSchema)};`,
+  );
+
+  const operationSources: string[] = [];
+  for (const [path, methods] of Object.entries(document.paths)) {
+    for (const [method, operation] of Object.entries(methods)) {
+      operationSources.push(
+        createOperationSource(path, method, operation as OpenApiOperation),
+      );
+    }
+  }
+
+  const clientSource = `export function createClient(options: ClientOptions) {
+  const request = async <TResult>(
+    requestOptions: RequestOptions,
+  ): Promise<TResult> => {
+    const url = new URL(requestOptions.path, options.baseUrl);
+    for (const [name, value] of Object.entries(requestOptions.query ?? {})) {
+      if (value !== undefined) {
+        url.searchParams.set(name, String(value));
+      }
+    }
+
+    const headers: Record<string, string> = { ...options.headers };
+    for (const [name, value] of Object.entries(requestOptions.headers ?? {})) {
+      if (value !== undefined) {
+        headers[name] = value;
+      }
+    }
+    if (requestOptions.body !== undefined) {
+      headers["content-type"] = requestOptions.contentType ?? "application/json";
+    }
+
+    const response = await fetch(url, {
+      method: requestOptions.method,
+      headers,
+      body:
+        requestOptions.body === undefined
+          ? undefined
+          : JSON.stringify(requestOptions.body),
+    });
+
+    if (!response.ok) {
+      throw new ApiError(response.status, await readErrorResponse(response));
+    }
+
+    if (response.status === 204) {
+      return undefined as TResult;
+    }
+
+    if (requestOptions.responseType === "text") {
+      return (await response.text()) as TResult;
+    }
+
+    return (await response.json()) as TResult;
+  };
+
+  return {
+${indent(operationSources.join("\n\n"), 2)}
+  };
+}
+
+export type Client = ReturnType<typeof createClient>;`;
+
+  return [
+    "// Generated from the todo API OpenAPI document by services/api/src/generateClient.ts.",
+    "// Do not edit by hand; run `npm run client:generate --workspace=@code-style/example-api`.",
+    "",
+    typeDeclarations.join("\n\n"),
+    "",
+    runtimeSource,
+    "",
+    clientSource,
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,279 @@
+import {
+  appendFileSync,
+  closeSync,
+  fstatSync,
+  fsyncSync,
+  ftruncateSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  renameSync,
+  writeFileSync,
+} from "node:fs";
+import path from "node:path";
+import type {
+  FsyncPolicy,
+  Logger,
+  ManagedTodoStore,
+  TodoRecord,
+  TodoWrite,
+} from "../types.ts";
+import {
+  createMemoryTodoStore,
+  type MemoryTodoStore,
+} from "./createMemoryTodoStore.ts";
+
+type FileTodoStoreOptions = {
+  directory: string;
+  fsyncPolicy: FsyncPolicy;
+  fsyncIntervalMs: number;
+  snapshotEveryOperations: number;
+  logger: Logger;
+};
+
+// One log line per applyWrites call, so a batch is replayed whole or not at all.
+type LogEntry = {
+  sequence: number;
+  writes: TodoWrite[];
+};
+
+type Snapshot = {
+  // The last log entry folded into the snapshot; replay skips entries up to it.
+  sequence: number;
+  todos: TodoRecord[];
+};
+
+type OpenState = {
+  memory: MemoryTodoStore;
+  logDescriptor: number;
+  sequence: number;
+  entriesSinceSnapshot: number;
+  dirty: boolean;
+  fsyncTimer?: NodeJS.Timeout;
+};
+
+export const snapshotFileName = "todos.snapshot.json";
+export const logFileName = "todos.log.jsonl";
+
+function readOptionalFile(filePath: string): Buffer | undefined {
+  try {
+    return readFileSync(filePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+function readSnapshot(filePath: string): Snapshot {
+  const content = readOptionalFile(filePath);
+  return content
+    ? (JSON.parse(content.toString("utf8")) as Snapshot)
+    : { sequence: 0, todos: [] };
+}
+
+// A crash mid-append leaves at most the final line incomplete; anything unreadable before it is real corruption.
+function readLog(filePath: string): {
+  entries: LogEntry[];
+  validBytes: number;
+  totalBytes: number;
+} {
+  const content = readOptionalFile(filePath) ?? Buffer.alloc(0);
+  const entries: LogEntry[] = [];
+  let offset = 0;
+
+  while (offset < content.length) {
+    const end = content.indexOf(0x0a, offset);
+    if (end === -1) {
+      break;
+    }
+    try {
+      entries.push(
+        JSON.parse(content.subarray(offset, end).toString("utf8")) as LogEntry,
+      );
+    } catch (error) {
+      if (end === content.length - 1) {
+        break;
+      }
+      throw new Error(`Todo log ${filePath} is corrupt at byte ${offset}`, {
+        cause: error,
+      });
+    }
+    offset = end + 1;
+  }
+
+  return { entries, validBytes: offset, totalBytes: content.length };
+}
+
+function writeDurably(filePath: string, data: string): void {
+  const descriptor = openSync(filePath, "w");
+  try {
+    writeFileSync(descriptor, data);
+    fsyncSync(descriptor);
+  } finally {
+    closeSync(descriptor);
+  }
+}
+
+function syncDirectory(directory: string): void {
+  const descriptor = openSync(directory, "r");
+  try {
+    fsyncSync(descriptor);
+  } finally {
+    closeSync(descriptor);
+  }
+}
+
+// TodoStore is synchronous, so the log is written with synchronous I/O before a write becomes visible.
+// Closing keeps the files; the next access replays them, which is how a restarted server gets its todos back.
+export function createFileTodoStore(
+  options: FileTodoStoreOptions,
+): ManagedTodoStore {
+  const snapshotPath = path.join(options.directory, snapshotFileName);
+  const logPath = path.join(options.directory, logFileName);
+  let state: OpenState | undefined;
+
+  const fsyncLog = (openState: OpenState) => {
+    if (openState.dirty) {
+      fsyncSync(openState.logDescriptor);
+      openState.dirty = false;
+    }
+  };
+
+  const open = (): OpenState => {
+    mkdirSync(options.directory, { recursive: true });
+    const memory = createMemoryTodoStore();
+    const snapshot = readSnapshot(snapshotPath);
+    memory.applyWrites(snapshot.todos.map((todo) => ({ op: "put", todo })));
+
+    let sequence = snapshot.sequence;
+    let entriesSinceSnapshot = 0;
+    const log = readLog(logPath);
+    for (const entry of log.entries) {
+      // Entries at or below the snapshot survived a crash between writing the snapshot and truncating the log.
+      if (entry.sequence > sequence) {
+        memory.applyWrites(entry.writes);
+        sequence = entry.sequence;
+        entriesSinceSnapshot += 1;
+      }
+    }
+
+    const logDescriptor = openSync(logPath, "a");
+    if (log.validBytes < log.totalBytes) {
+      options.logger.warn("Discarded a torn write at the end of the todo log", {
+        path: logPath,
+        discardedBytes: log.totalBytes - log.validBytes,
+      });
+      ftruncateSync(logDescriptor, log.validBytes);
+      fsyncSync(logDescriptor);
+    }
+
+    const openState: OpenState = {
+      memory,
+      logDescriptor,
+      sequence,
+      entriesSinceSnapshot,
+      dirty: false,
+    };
+    if (options.fsyncPolicy === "interval") {
+      openState.fsyncTimer = setInterval(() => {
+        try {
+          fsyncLog(openState);
+        } catch (error) {
+          options.logger.error("Failed to fsync the todo log", {
+            path: logPath,
+            error,
+          });
+        }
+      }, options.fsyncIntervalMs);
+      openState.fsyncTimer.unref();
+    }
+    return openState;
+  };
+
+  const getState = (): OpenState => {
+    state ??= open();
+    return state;
+  };
+
+  // The snapshot is always fsynced, whatever the policy, because the log it replaces is truncated right after.
+  const compact = (openState: OpenState) => {
+    const temporaryPath = `${snapshotPath}.tmp`;
+    const snapshot: Snapshot = {
+      sequence: openState.sequence,
+      todos: openState.memory.getEveryTodo(),
+    };
+    writeDurably(temporaryPath, JSON.stringify(snapshot));
+    renameSync(temporaryPath, snapshotPath);
+    syncDirectory(options.directory);
+
+    ftruncateSync(openState.logDescriptor, 0);
+    fsyncSync(openState.logDescriptor);
+    openState.dirty = false;
+    openState.entriesSinceSnapshot = 0;
+  };
+
+  const applyWrites = (writes: TodoWrite[]) => {
+    if (writes.length === 0) {
+      return;
+    }
+
+    const openState = getState();
+    const entry: LogEntry = { sequence: openState.sequence + 1, writes };
+    // A failed append (ENOSPC, EIO) can leave part of a line behind; cutting it off keeps it from
+    // ending up in the middle of the log, where replay would treat it as corruption.
+    const { size } = fstatSync(openState.logDescriptor);
+    try {
+      appendFileSync(openState.logDescriptor, `${JSON.stringify(entry)}\n`);
+    } catch (error) {
+      ftruncateSync(openState.logDescriptor, size);
+      throw error;
+    }
+    openState.sequence = entry.sequence;
+    openState.dirty = true;
+    if (options.fsyncPolicy === "always") {
+      fsyncLog(openState);
+    }
+
+    openState.memory.applyWrites(writes);
+    openState.entriesSinceSnapshot += 1;
+    if (openState.entriesSinceSnapshot >= options.snapshotEveryOperations) {
+      compact(openState);
+    }
+  };
+
+  // Opening eagerly surfaces a corrupt log at startup rather than on the first request.
+  state = open();
+
+  return {
+    getAll: (ownerId) => getState().memory.getAll(ownerId),
+    query: (query) => getState().memory.query(query),
+    search: (ownerId, text, limit) =>
+      getState().memory.search(ownerId, text, limit),
+    getById: (id) => getState().memory.getById(id),
+    insert: (todo) => applyWrites([{ op: "put", todo }]),
+    replace: (todo) => applyWrites([{ op: "put", todo }]),
+    deleteById: (id) => {
+      if (getState().memory.getById(id)) {
+        applyWrites([{ op: "delete", id }]);
+      }
+    },
+    applyWrites,
+    count: () => getState().memory.count(),
+    close: async () => {
+      if (!state) {
+        return;
+      }
+      const openState = state;
+      state = undefined;
+      clearInterval(openState.fsyncTimer);
+      try {
+        fsyncLog(openState);
+      } finally {
+        closeSync(openState.logDescriptor);
+        await openState.memory.close();
+      }
+    },
+  };
+}
@@ -0,0 +1,47 @@
+import type { IdempotencyRecord, IdempotencyStore } from "../types.ts";
+
+export function createIdempotencyStore(ttlMs: number): IdempotencyStore {
+  const records = new Map<string, IdempotencyRecord>();
+  const timers = new Map<string, NodeJS.Timeout>();
+
+  const expireLater = (key: string) => {
+    clearTimeout(timers.get(key));
+    const timer = setTimeout(() => {
+      records.delete(key);
+      timers.delete(key);
+    }, ttlMs);
+    // Expiry is housekeeping and should never hold the process open.
+    timer.unref();
+    timers.set(key, timer);
+  };
+
+  const release = (key: string) => {
+    clearTimeout(timers.get(key));
+    timers.delete(key);
+    records.delete(key);
+  };
+
+  return {
+    get: (key) => records.get(key),
+    start: (key, fingerprint) => {
+      records.set(key, { fingerprint });
+      expireLater(key);
+    },
+    complete: (key, response) => {
+      const record = records.get(key);
+      if (!record) {
+        return;
+      }
+      record.response = response;
+      expireLater(key);
+    },
+    release,
+    clear: () => {
+      for (const timer of timers.values()) {
+        clearTimeout(timer);
+      }
+      timers.clear();
+      records.clear();
+    },
+  };
+}
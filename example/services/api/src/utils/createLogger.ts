@@ -0,0 +1,109 @@
+import { createWriteStream, openSync } from "node:fs";
+import type { Writable } from "node:stream";
+import type { LogFields, Logger, LogLevel, ManagedLogger } from "../types.ts";
+
+type LoggerOptions = {
+  level: LogLevel | "silent";
+  // "stdout", "stderr", or a file path that lines are appended to.
+  destination: string;
+};
+
+const levelRanks: Record<LogLevel | "silent", number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: Number.POSITIVE_INFINITY,
+};
+
+function serializeValue(value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  return value;
+}
+
+function openFileStream(destination: string): Writable {
+  // Opening synchronously makes a bad destination throw to the caller instead of crashing on the first line.
+  const stream = createWriteStream(destination, {
+    fd: openSync(destination, "a"),
+  });
+  // The logger cannot log its own failures, so they go to stderr instead of becoming an unhandled 'error'.
+  stream.on("error", (error) => {
+    process.stderr.write(
+      `Failed to write log lines to ${destination}: ${error.message}\n`,
+    );
+  });
+  return stream;
+}
+
+export function createLogger(options: LoggerOptions): ManagedLogger {
+  const threshold = levelRanks[options.level];
+  const isFile =
+    options.destination !== "stdout" && options.destination !== "stderr";
+  // Closed by close and reopened on the next write, so a restarted server keeps appending.
+  let fileStream = isFile ? openFileStream(options.destination) : undefined;
+
+  const getStream = (): Writable => {
+    if (options.destination === "stdout") {
+      return process.stdout;
+    }
+    if (options.destination === "stderr") {
+      return process.stderr;
+    }
+    fileStream ??= openFileStream(options.destination);
+    return fileStream;
+  };
+
+  const write = (level: LogLevel, message: string, fields: LogFields) => {
+    if (levelRanks[level] < threshold) {
+      return;
+    }
+    const entry: LogFields = {
+      time: new Date().toISOString(),
+      level,
+      msg: message,
+    };
+    for (const [name, value] of Object.entries(fields)) {
+      entry[name] = serializeValue(value);
+    }
+    getStream().write(`${JSON.stringify(entry)}\n`);
+  };
+
+  const createChild = (bound: LogFields): Logger => ({
+    debug: (message, fields = {}) =>
+      write("debug", message, { ...bound, ...fields }),
+    info: (message, fields = {}) =>
+      write("info", message, { ...bound, ...fields }),
+    warn: (message, fields = {}) =>
+      write("warn", message, { ...bound, ...fields }),
+    error: (message, fields = {}) =>
+      write("error", message, { ...bound, ...fields }),
+    child: (fields) => createChild({ ...bound, ...fields }),
+    flush,
+  });
+
+  // Failed writes are reported by the file stream's error handler, so neither flush nor close rejects.
+  const flush = async () => {
+    const stream = isFile ? fileStream : getStream();
+    if (stream && threshold !== Number.POSITIVE_INFINITY) {
+      await new Promise<void>((resolve) => stream.write("", () => resolve()));
+    }
+  };
+
+  return {
+    ...createChild({}),
+    close: async () => {
+      if (!fileStream) {
+        await flush();
+        return;
+      }
+      const closing = fileStream;
+      fileStream = undefined;
+      await new Promise<void>((resolve) => {
+        closing.once("close", resolve);
+        closing.end();
+      });
+    },
+  };
+}
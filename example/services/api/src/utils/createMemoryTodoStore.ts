@@ -0,0 +1,91 @@
+import type {
+  ManagedTodoStore,
+  SearchIndex,
+  TodoQuery,
+  TodoRecord,
+  TodoWrite,
+} from "../types.ts";
+import { createSearchIndex } from "./createSearchIndex.ts";
+import { queryTodos } from "./queryTodos.ts";
+
+export type MemoryTodoStore = ManagedTodoStore & {
+  getEveryTodo: () => TodoRecord[];
+};
+
+export function createMemoryTodoStore(): MemoryTodoStore {
+  const todos = new Map<string, TodoRecord>();
+  // Each owner gets its own partition so scoped reads and ranking never see other tenants' todos.
+  const owners = new Map<
+    string,
+    { todos: Map<string, TodoRecord>; searchIndex: SearchIndex }
+  >();
+
+  const getPartition = (ownerId: string) => {
+    let partition = owners.get(ownerId);
+    if (!partition) {
+      partition = { todos: new Map(), searchIndex: createSearchIndex() };
+      owners.set(ownerId, partition);
+    }
+    return partition;
+  };
+
+  const write = (todo: TodoRecord) => {
+    const partition = getPartition(todo.ownerId);
+    todos.set(todo.id, todo);
+    partition.todos.set(todo.id, todo);
+    partition.searchIndex.add(todo.id, todo.title);
+  };
+
+  const deleteById = (id: string) => {
+    const todo = todos.get(id);
+    if (!todo) {
+      return;
+    }
+    todos.delete(id);
+    const partition = getPartition(todo.ownerId);
+    partition.todos.delete(id);
+    partition.searchIndex.remove(id);
+  };
+
+  return {
+    getAll: (ownerId: string) => [
+      ...(owners.get(ownerId)?.todos.values() ?? []),
+    ],
+    getEveryTodo: () => [...todos.values()],
+    query: (query: TodoQuery) =>
+      queryTodos(owners.get(query.ownerId)?.todos.values() ?? [], query),
+    search: (ownerId: string, text: string, limit: number) => {
+      const partition = owners.get(ownerId);
+      if (!partition) {
+        return [];
+      }
+      return partition.searchIndex
+        .search(text, limit)
+        .flatMap(({ id, score }) => {
+          const todo = partition.todos.get(id);
+          return todo ? [{ todo, score }] : [];
+        });
+    },
+    getById: (id: string) => todos.get(id),
+    insert: write,
+    replace: write,
+    deleteById,
+    applyWrites: (writes: TodoWrite[]) => {
+      for (const todoWrite of writes) {
+        if (todoWrite.op === "put") {
+          write(todoWrite.todo);
+        } else {
+          deleteById(todoWrite.id);
+        }
+      }
+    },
+    count: () => todos.size,
+    close: async () => {
+      todos.clear();
+      for (const partition of owners.values()) {
+        partition.searchIndex.clear();
+      }
+      owners.clear();
+    },
+  };
+}
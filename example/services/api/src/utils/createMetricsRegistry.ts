@@ -0,0 +1,190 @@
+import type {
+  Counter,
+  Gauge,
+  Histogram,
+  MetricLabels,
+  MetricsRegistry,
+} from "../types.ts";
+
+type Metric = {
+  name: string;
+  help: string;
+  type: "counter" | "gauge" | "histogram";
+  render: () => string[];
+  reset: () => void;
+};
+
+const defaultBuckets = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+function escapeLabelValue(value: string): string {
+  return value
+    .replaceAll("\\", "\\\\")
+    .replaceAll("\n", "\\n")
+    .replaceAll('"', '\\"');
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return "";
+  }
+  return `{${entries
+    .map(([name, value]) => `${name}="${escapeLabelValue(value)}"`)
+    .join(",")}}`;
+}
+
+function formatValue(value: number): string {
+  if (value === Number.POSITIVE_INFINITY) {
+    return "+Inf";
+  }
+  if (value === Number.NEGATIVE_INFINITY) {
+    return "-Inf";
+  }
+  return String(value);
+}
+
+// Series are keyed by their rendered label set, which sorts labels so call-site order does not matter.
+function toSeriesKey(labels: MetricLabels): string {
+  return formatLabels(
+    Object.fromEntries(
+      Object.entries(labels).sort(([left], [right]) =>
+        left.localeCompare(right),
+      ),
+    ),
+  );
+}
+
+function createSeries<TValue>(create: () => TValue) {
+  const series = new Map<string, { labels: MetricLabels; value: TValue }>();
+  return {
+    get: (labels: MetricLabels) => {
+      const key = toSeriesKey(labels);
+      let entry = series.get(key);
+      if (!entry) {
+        entry = { labels, value: create() };
+        series.set(key, entry);
+      }
+      return entry;
+    },
+    entries: () => [...series.values()],
+    clear: () => series.clear(),
+  };
+}
+
+export function createMetricsRegistry(): MetricsRegistry {
+  const metrics = new Map<string, Metric>();
+
+  const register = (metric: Metric) => {
+    if (metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    metrics.set(metric.name, metric);
+  };
+
+  return {
+    counter: (name, help): Counter => {
+      const series = createSeries(() => 0);
+      register({
+        name,
+        help,
+        type: "counter",
+        render: () =>
+          series
+            .entries()
+            .map(
+              ({ labels, value }) =>
+                `${name}${formatLabels(labels)} ${formatValue(value)}`,
+            ),
+        reset: series.clear,
+      });
+      return {
+        inc: (labels = {}, amount = 1) => {
+          if (amount < 0) {
+            throw new Error(`Counter ${name} cannot decrease`);
+          }
+          series.get(labels).value += amount;
+        },
+      };
+    },
+    gauge: (name, help, collect): Gauge => {
+      const series = createSeries(() => 0);
+      register({
+        name,
+        help,
+        type: "gauge",
+        render: () => {
+          const lines = series
+            .entries()
+            .map(
+              ({ labels, value }) =>
+                `${name}${formatLabels(labels)} ${formatValue(value)}`,
+            );
+          return collect ? [`${name} ${formatValue(collect())}`] : lines;
+        },
+        reset: series.clear,
+      });
+      return {
+        set: (value, labels = {}) => {
+          series.get(labels).value = value;
+        },
+      };
+    },
+    histogram: (name, help, buckets = defaultBuckets): Histogram => {
+      const bounds = [...buckets].sort((left, right) => left - right);
+      const series = createSeries(() => ({
+        counts: bounds.map(() => 0),
+        sum: 0,
+        count: 0,
+      }));
+      register({
+        name,
+        help,
+        type: "histogram",
+        render: () =>
+          series
+            .entries()
+            .flatMap(({ labels, value }) => [
+              ...bounds.map(
+                (bound, index) =>
+                  `${name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${value.counts[index]}`,
+              ),
+              `${name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${value.count}`,
+              `${name}_sum${formatLabels(labels)} ${formatValue(value.sum)}`,
+              `${name}_count${formatLabels(labels)} ${value.count}`,
+            ]),
+        reset: series.clear,
+      });
+      return {
+        observe: (value, labels = {}) => {
+          const entry = series.get(labels).value;
+          // Buckets are cumulative: an observation counts towards every bound at or above it.
+          for (const [index, bound] of bounds.entries()) {
+            if (value <= bound) {
+              entry.counts[index] += 1;
+            }
+          }
+          entry.sum += value;
+          entry.count += 1;
+        },
+      };
+    },
+    render: () => {
+      const lines: string[] = [];
+      for (const metric of metrics.values()) {
+        lines.push(
+          `# HELP ${metric.name} ${metric.help.replaceAll("\\", "\\\\").replaceAll("\n", "\\n")}`,
+        );
+        lines.push(`# TYPE ${metric.name} ${metric.type}`);
+        lines.push(...metric.render());
+      }
+      return `${lines.join("\n")}\n`;
+    },
+    clear: () => {
+      for (const metric of metrics.values()) {
+        metric.reset();
+      }
+    },
+  };
+}
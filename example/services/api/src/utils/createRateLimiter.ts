@@ -0,0 +1,79 @@
+import type { RateLimitDecision, RateLimiter } from "../types.ts";
+
+type Bucket = {
+  tokens: number;
+  updatedAt: number;
+};
+
+type RateLimiterOptions = {
+  capacity: number;
+  refillPerSecond: number;
+  cleanupIntervalMs: number;
+};
+
+export function createRateLimiter(options: RateLimiterOptions): RateLimiter {
+  const buckets = new Map<string, Bucket>();
+  let cleanupInterval: NodeJS.Timeout | undefined;
+
+  const refill = (bucket: Bucket, now: number) => {
+    const elapsedSeconds = (now - bucket.updatedAt) / 1000;
+    bucket.tokens = Math.min(
+      options.capacity,
+      bucket.tokens + elapsedSeconds * options.refillPerSecond,
+    );
+    bucket.updatedAt = now;
+  };
+
+  // A full bucket behaves exactly like a missing one, so it can be dropped.
+  const removeFullBuckets = () => {
+    const now = Date.now();
+    for (const [key, bucket] of buckets) {
+      refill(bucket, now);
+      if (bucket.tokens >= options.capacity) {
+        buckets.delete(key);
+      }
+    }
+  };
+
+  return {
+    take: (key, cost): RateLimitDecision => {
+      if (!cleanupInterval) {
+        cleanupInterval = setInterval(
+          removeFullBuckets,
+          options.cleanupIntervalMs,
+        );
+        cleanupInterval.unref();
+      }
+
+      const now = Date.now();
+      let bucket = buckets.get(key);
+      if (!bucket) {
+        bucket = { tokens: options.capacity, updatedAt: now };
+        buckets.set(key, bucket);
+      }
+      refill(bucket, now);
+
+      const allowed = bucket.tokens >= cost;
+      if (allowed) {
+        bucket.tokens -= cost;
+      }
+
+      return {
+        allowed,
+        limit: options.capacity,
+        remaining: Math.floor(bucket.tokens),
+        resetSeconds: Math.ceil(
+          (options.capacity - bucket.tokens) / options.refillPerSecond,
+        ),
+        retryAfterSeconds: allowed
+          ? 0
+          : Math.ceil((cost - bucket.tokens) / options.refillPerSecond),
+      };
+    },
+    clear: () => {
+      clearInterval(cleanupInterval);
+      cleanupInterval = undefined;
+      buckets.clear();
+    },
+  };
+}
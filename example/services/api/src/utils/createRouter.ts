@@ -1,63 +1,386 @@
+import { randomUUID } from "node:crypto";
 import type http from "node:http";
-import { z } from "zod";
-import type { Context, Route } from "../types.ts";
-import { handleHttpError, sendJson } from "./http.ts";
+import {
+  MethodNotAllowedError,
+  NotFoundError,
+  TooManyRequestsError,
+  UnauthorizedError,
+  UnsupportedMediaTypeError,
+  ValidationError,
+} from "../errors.ts";
+import type {
+  BodyContentType,
+  Context,
+  ControllerModule,
+  Counter,
+  Histogram,
+  Principal,
+  ResponseFormat,
+  Route,
+  TraceContext,
+  UploadedFile,
+} from "../types.ts";
+import { authorize } from "./authorize.ts";
+import { type BodyMode, getBodyFromRequest } from "./getBodyFromRequest.ts";
+import { handleIdempotentRequest } from "./handleIdempotentRequest.ts";
+import { appendVary, handleHttpError, negotiateFormat } from "./http.ts";
+import { parseRequestInput } from "./parseRequestInput.ts";
+import {
+  createRequestSignal,
+  runWithSignal,
+  startWithSignal,
+} from "./requestSignal.ts";
+import { compileRoutes } from "./routeMatcher.ts";
+import {
+  extractTraceContext,
+  startSpan,
+  withSpan,
+  withTraceContext,
+} from "./tracing.ts";
 
-export async function createRouter(
+const allowOrder = ["GET", "HEAD", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"];
+
+function getAllowedMethods(routeMethods: string[]): string[] {
+  const methods = new Set(routeMethods);
+  if (methods.has("GET")) {
+    methods.add("HEAD");
+  }
+  methods.add("OPTIONS");
+
+  return [...methods].sort(
+    (left, right) => allowOrder.indexOf(left) - allowOrder.indexOf(right),
+  );
+}
+
+const bodyModes: Record<BodyContentType, BodyMode> = {
+  "application/json": "json",
+  "application/x-www-form-urlencoded": "form",
+  "multipart/form-data": "multipart",
+  "application/merge-patch+json": "json",
+  "application/json-patch+json": "json",
+};
+
+function getBodyType(
+  request: http.IncomingMessage,
+  bodyTypes: BodyContentType[],
+): BodyContentType | undefined {
+  const contentType = request.headers["content-type"]
+    ?.split(";")[0]
+    .trim()
+    .toLowerCase();
+
+  if (!contentType) {
+    const hasBody =
+      request.headers["transfer-encoding"] !== undefined ||
+      Number(request.headers["content-length"] ?? 0) > 0;
+    if (hasBody) {
+      throw new UnsupportedMediaTypeError("Request body needs a content-type");
+    }
+    return undefined;
+  }
+
+  const bodyType = bodyTypes.find((candidate) => candidate === contentType);
+  if (!bodyType) {
+    throw new UnsupportedMediaTypeError(
+      `Unsupported content-type ${contentType}. Supported: ${bodyTypes.join(", ")}`,
+    );
+  }
+  return bodyType;
+}
+
+const requestIdPattern = /^[\w.:-]{1,128}$/;
+
+// A well-formed incoming X-Request-Id is kept so one id follows the request across services.
+function getRequestId(request: http.IncomingMessage): string {
+  const incoming = request.headers["x-request-id"];
+  return typeof incoming === "string" && requestIdPattern.test(incoming)
+    ? incoming
+    : randomUUID();
+}
+
+type RequestInstruments = {
+  requests: Counter;
+  duration: Histogram;
+};
+
+function createRequestInstruments(context: Context): RequestInstruments {
+  return {
+    requests: context.metrics.counter(
+      "http_requests_total",
+      "HTTP requests by method, route template and status class",
+    ),
+    duration: context.metrics.histogram(
+      "http_request_duration_seconds",
+      "HTTP request latency by method and route template",
+    ),
+  };
+}
+
+type ObservedRequest = {
+  trace: TraceContext;
+  setRoute: (route: Route) => void;
+};
+
+// Traces, logs and measures the request, finishing all three once its response closes.
+function observeRequest(
   context: Context,
-  routes: Route[],
+  instruments: RequestInstruments,
   request: http.IncomingMessage,
   response: http.ServerResponse,
-): Promise<void> {
-  try {
-    if (!request.url) {
-      sendJson(response, 400, {
-        error: "Invalid request URL",
-        code: "INVALID_REQUEST",
-      });
-      return;
+  requestId: string,
+): ObservedRequest {
+  const startedAt = performance.now();
+  const method = request.method ?? "UNKNOWN";
+  // Labelling by template keeps one series per route instead of one per todo id.
+  let routeLabel = "unmatched";
+  // A missing or malformed traceparent starts a new trace.
+  const span = startSpan(context, method, {
+    kind: "server",
+    parent: extractTraceContext(request.headers) ?? null,
+    attributes: {
+      "http.request.method": method,
+      "url.path": request.url ?? "",
+      "http.request.id": requestId,
+    },
+  });
+
+  response.once("close", () => {
+    span.setAttribute("http.response.status_code", response.statusCode);
+    if (response.statusCode >= 500) {
+      span.setStatus("error", `HTTP ${response.statusCode}`);
     }
+    span.end();
 
-    const url = new URL(request.url, context.config.publicBaseUrl);
+    const durationMs = performance.now() - startedAt;
+    instruments.requests.inc({
+      method,
+      route: routeLabel,
+      status_class: `${Math.floor(response.statusCode / 100)}xx`,
+    });
+    instruments.duration.observe(durationMs / 1000, {
+      method,
+      route: routeLabel,
+    });
+    context.logger.info("Request completed", {
+      requestId,
+      traceId: span.context.traceId,
+      method: request.method,
+      path: request.url,
+      route: routeLabel,
+      status: response.statusCode,
+      durationMs: Math.round(durationMs * 1000) / 1000,
+      completed: response.writableFinished,
+    });
+  });
+
+  return {
+    trace: span.context,
+    setRoute: (route) => {
+      routeLabel = route.pathname;
+      span.updateName(`${method} ${route.pathname}`);
+      span.setAttribute("http.route", route.pathname);
+    },
+  };
+}
 
-    for (const route of routes) {
-      if (route.method !== request.method) {
-        continue;
+function applyRateLimit(
+  context: Context,
+  request: http.IncomingMessage,
+  response: http.ServerResponse,
+  principal: Principal | undefined,
+  cost: number,
+): void {
+  // Authenticated clients share one bucket across addresses; anonymous ones are limited per address.
+  const clientKey = principal
+    ? `principal:${principal.id}`
+    : `address:${request.socket.remoteAddress ?? "unknown"}`;
+  const decision = context.rateLimiter.take(clientKey, cost);
+  response.setHeader("ratelimit-limit", decision.limit);
+  response.setHeader("ratelimit-remaining", decision.remaining);
+  response.setHeader("ratelimit-reset", decision.resetSeconds);
+
+  if (!decision.allowed) {
+    response.setHeader("retry-after", decision.retryAfterSeconds);
+    throw new TooManyRequestsError("Rate limit exceeded");
+  }
+}
+
+export function createRouter(
+  context: Context,
+  routes: Route[],
+): (
+  request: http.IncomingMessage,
+  response: http.ServerResponse,
+) => Promise<void> {
+  const matcher = compileRoutes(routes);
+  const controllers = new Map<Route, ControllerModule>();
+  const instruments = createRequestInstruments(context);
+
+  const loadController = async (route: Route): Promise<ControllerModule> => {
+    const controllerModule = await route.controller;
+    controllers.set(route, controllerModule.default);
+    return controllerModule.default;
+  };
+
+  return async (request, response) => {
+    const uploadedFiles: UploadedFile[] = [];
+    const requestId = getRequestId(request);
+    response.setHeader("x-request-id", requestId);
+    const { trace, setRoute } = observeRequest(
+      context,
+      instruments,
+      request,
+      response,
+      requestId,
+    );
+    const { signal, dispose } = createRequestSignal(context, response);
+    const requestLogger = context.logger.child({ requestId });
+
+    try {
+      if (!request.url || !request.method) {
+        throw new ValidationError("Invalid request URL");
       }
 
-      const match = route.pattern.exec({ pathname: url.pathname });
+      const url = new URL(request.url, context.config.publicBaseUrl);
+
+      // HEAD falls back to the GET controller; node drops the body for HEAD responses.
+      const match =
+        matcher.match(request.method, url.pathname) ??
+        (request.method === "HEAD"
+          ? matcher.match("GET", url.pathname)
+          : undefined);
+
       if (!match) {
-        continue;
+        const routeMethods = matcher.getMethods(url.pathname);
+        if (routeMethods.length === 0) {
+          throw new NotFoundError("Not found");
+        }
+
+        const allow = getAllowedMethods(routeMethods).join(", ");
+        response.setHeader("allow", allow);
+
+        if (request.method === "OPTIONS") {
+          response.writeHead(204);
+          response.end();
+          return;
+        }
+
+        throw new MethodNotAllowedError(
+          `Method ${request.method} not allowed. Allowed: ${allow}`,
+        );
+      }
+
+      setRoute(match.route);
+      const controller =
+        controllers.get(match.route) ?? (await loadController(match.route));
+      let principal: Principal | undefined;
+      try {
+        principal = authorize(context, request, response, controller.auth);
+      } catch (error) {
+        // Failed credentials are charged to the address, so key and token guessing is throttled even on free routes.
+        if (error instanceof UnauthorizedError) {
+          applyRateLimit(
+            context,
+            request,
+            response,
+            undefined,
+            Math.max(controller.rateLimitCost, 1),
+          );
+        }
+        throw error;
+      }
+      if (controller.rateLimitCost > 0) {
+        applyRateLimit(
+          context,
+          request,
+          response,
+          principal,
+          controller.rateLimitCost,
+        );
       }
 
-      const controllerModule = await route.controller;
-      const controller = controllerModule.default;
       const schema = controller.schema;
+      let format: ResponseFormat = "application/json";
+      if (controller.formats) {
+        appendVary(response, "accept");
+        format = negotiateFormat(request.headers.accept, controller.formats);
+      }
       const params = schema?.params
-        ? z
-            .any()
-            .pipe(schema.params as z.ZodTypeAny)
-            .parse(match.pathname.groups ?? {})
+        ? parseRequestInput(schema.params, match.params, "params")
         : {};
       const query = schema?.query
-        ? z
-            .any()
-            .pipe(schema.query as z.ZodTypeAny)
-            .parse(Object.fromEntries(url.searchParams.entries()))
+        ? parseRequestInput(
+            schema.query,
+            Object.fromEntries(url.searchParams.entries()),
+            "query",
+          )
+        : {};
+      const headers = schema?.headers
+        ? parseRequestInput(schema.headers, request.headers, "headers")
         : {};
+      let body: unknown;
+      let bodyType: BodyContentType | undefined;
+      if (schema?.body) {
+        bodyType = getBodyType(
+          request,
+          controller.bodyTypes ?? ["application/json"],
+        );
+        const mode = bodyType ? bodyModes[bodyType] : undefined;
+        body = parseRequestInput(
+          schema.body,
+          mode
+            ? await runWithSignal(requestLogger, signal, () =>
+                getBodyFromRequest(context, request, mode, { uploadedFiles }),
+              )
+            : undefined,
+          "body",
+        );
+      }
 
-      await controller.handler({
-        context,
-        request,
-        response,
-        params,
-        query,
-      });
-      return;
-    }
+      const startHandler = () =>
+        startWithSignal(requestLogger, signal, () =>
+          withSpan(
+            withTraceContext(context, trace),
+            `handler ${controller.openapi.operationId}`,
+            (handlerContext) =>
+              controller.handler({
+                context: handlerContext,
+                principal,
+                request,
+                response,
+                signal,
+                params,
+                query,
+                headers,
+                body,
+                bodyType,
+                format,
+              }),
+          ),
+        );
 
-    sendJson(response, 404, { error: "Not found", code: "NOT_FOUND" });
-  } catch (error) {
-    handleHttpError(response, error);
-  }
+      if (controller.idempotent) {
+        await handleIdempotentRequest(
+          context,
+          request,
+          response,
+          principal,
+          url.pathname,
+          body,
+          startHandler,
+        );
+      } else {
+        await startHandler().result;
+      }
+    } catch (error) {
+      handleHttpError(context, response, error);
+    } finally {
+      dispose();
+      if (uploadedFiles.length > 0) {
+        await context.temporaryFiles.remove(
+          uploadedFiles.map((uploadedFile) => uploadedFile.path),
+        );
+      }
+    }
+  };
 }
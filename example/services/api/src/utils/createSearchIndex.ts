@@ -0,0 +1,161 @@
+import type { SearchIndex, SearchMatch } from "../types.ts";
+
+type IndexedDocument = {
+  termCounts: Map<string, number>;
+  length: number;
+};
+
+// BM25 parameters; the usual defaults for short documents.
+const termSaturation = 1.2;
+const lengthNormalization = 0.75;
+// A query token that is only a prefix of the indexed term counts for less than an exact word match.
+const prefixWeight = 0.5;
+
+export function tokenize(text: string): string[] {
+  return (
+    text
+      .normalize("NFKD")
+      .replace(/\p{M}+/gu, "")
+      .toLowerCase()
+      .match(/[\p{L}\p{N}]+/gu) ?? []
+  );
+}
+
+function findFirstAtOrAfter(terms: string[], term: string): number {
+  let low = 0;
+  let high = terms.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (terms[middle] < term) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
+
+export function createSearchIndex(): SearchIndex {
+  const postings = new Map<string, Map<string, number>>();
+  const documents = new Map<string, IndexedDocument>();
+  // Sorted so prefix lookups are a binary search plus a scan of the matching run.
+  const sortedTerms: string[] = [];
+  let totalLength = 0;
+
+  const addTerm = (term: string, id: string, count: number) => {
+    let posting = postings.get(term);
+    if (!posting) {
+      posting = new Map();
+      postings.set(term, posting);
+      sortedTerms.splice(findFirstAtOrAfter(sortedTerms, term), 0, term);
+    }
+    posting.set(id, count);
+  };
+
+  const removeTerm = (term: string, id: string) => {
+    const posting = postings.get(term);
+    posting?.delete(id);
+    if (posting?.size === 0) {
+      postings.delete(term);
+      sortedTerms.splice(findFirstAtOrAfter(sortedTerms, term), 1);
+    }
+  };
+
+  const remove = (id: string) => {
+    const document = documents.get(id);
+    if (!document) {
+      return;
+    }
+    for (const term of document.termCounts.keys()) {
+      removeTerm(term, id);
+    }
+    documents.delete(id);
+    totalLength -= document.length;
+  };
+
+  const findTerms = (token: string): string[] => {
+    const terms: string[] = [];
+    for (
+      let index = findFirstAtOrAfter(sortedTerms, token);
+      index < sortedTerms.length && sortedTerms[index].startsWith(token);
+      index += 1
+    ) {
+      terms.push(sortedTerms[index]);
+    }
+    return terms;
+  };
+
+  return {
+    add: (id, text) => {
+      remove(id);
+
+      const tokens = tokenize(text);
+      const termCounts = new Map<string, number>();
+      for (const token of tokens) {
+        termCounts.set(token, (termCounts.get(token) ?? 0) + 1);
+      }
+      for (const [term, count] of termCounts) {
+        addTerm(term, id, count);
+      }
+      documents.set(id, { termCounts, length: tokens.length });
+      totalLength += tokens.length;
+    },
+    remove,
+    search: (text, limit) => {
+      const tokens = [...new Set(tokenize(text))];
+      if (tokens.length === 0 || documents.size === 0) {
+        return [];
+      }
+
+      const averageLength = totalLength / documents.size;
+      let scores: Map<string, number> | undefined;
+
+      // Every query token has to match some term in a document for it to be returned.
+      for (const token of tokens) {
+        const tokenScores = new Map<string, number>();
+        for (const term of findTerms(token)) {
+          const posting = postings.get(term) ?? new Map<string, number>();
+          const inverseFrequency = Math.log(
+            1 + (documents.size - posting.size + 0.5) / (posting.size + 0.5),
+          );
+          const weight = term === token ? 1 : prefixWeight;
+
+          for (const [id, count] of posting) {
+            const length = documents.get(id)?.length ?? 0;
+            const saturation =
+              (count * (termSaturation + 1)) /
+              (count +
+                termSaturation *
+                  (1 -
+                    lengthNormalization +
+                    (lengthNormalization * length) / averageLength));
+            const score = weight * inverseFrequency * saturation;
+            tokenScores.set(id, Math.max(tokenScores.get(id) ?? 0, score));
+          }
+        }
+
+        const previous = scores;
+        scores = new Map();
+        for (const [id, score] of tokenScores) {
+          if (!previous || previous.has(id)) {
+            scores.set(id, (previous?.get(id) ?? 0) + score);
+          }
+        }
+      }
+
+      return [...(scores ?? [])]
+        .map(([id, score]): SearchMatch => ({ id, score }))
+        .sort(
+          (left, right) =>
+            right.score - left.score || left.id.localeCompare(right.id),
+        )
+        .slice(0, limit);
+    },
+    clear: () => {
+      postings.clear();
+      documents.clear();
+      sortedTerms.length = 0;
+      totalLength = 0;
+    },
+  };
+}
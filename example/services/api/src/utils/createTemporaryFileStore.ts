@@ -0,0 +1,27 @@
+import { randomUUID } from "node:crypto";
+import { mkdtemp, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import type { TemporaryFileStore } from "../types.ts";
+
+export function createTemporaryFileStore(): TemporaryFileStore {
+  let directory: Promise<string> | undefined;
+
+  return {
+    create: async () => {
+      directory ??= mkdtemp(path.join(os.tmpdir(), "todo-api-"));
+      return path.join(await directory, randomUUID());
+    },
+    remove: async (paths) => {
+      await Promise.all(paths.map((filePath) => rm(filePath, { force: true })));
+    },
+    removeAll: async () => {
+      if (!directory) {
+        return;
+      }
+      const removing = directory;
+      directory = undefined;
+      await rm(await removing, { recursive: true, force: true });
+    },
+  };
+}
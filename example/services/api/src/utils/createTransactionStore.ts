@@ -0,0 +1,104 @@
+import { ConflictError } from "../errors.ts";
+import type { TodoQuery, TodoRecord, TodoStore, TodoWrite } from "../types.ts";
+import { createSearchIndex } from "./createSearchIndex.ts";
+import { queryTodos } from "./queryTodos.ts";
+
+export type TransactionStore = TodoStore & {
+  commit: () => void;
+};
+
+// Writes are staged over the base store and only reach it on commit; dropping the store rolls them back.
+// Everything read from the base is remembered, so commit fails if a decision rested on data that has since changed.
+export function createTransactionStore(base: TodoStore): TransactionStore {
+  // A null entry marks a todo deleted inside the transaction.
+  const staged = new Map<string, TodoRecord | null>();
+  const baseVersions = new Map<string, number | undefined>();
+  // Whole-owner reads, such as the title uniqueness check, also conflict with todos added or removed since.
+  const ownerReads = new Map<string, Map<string, number>>();
+
+  const readVersion = (id: string) => {
+    const todo = base.getById(id);
+    if (!baseVersions.has(id)) {
+      baseVersions.set(id, todo?.version);
+    }
+    return todo;
+  };
+
+  const stage = (id: string, todo: TodoRecord | null) => {
+    readVersion(id);
+    staged.set(id, todo);
+  };
+
+  const getById = (id: string) =>
+    staged.has(id) ? (staged.get(id) ?? undefined) : readVersion(id);
+
+  const getAll = (ownerId: string) => {
+    const baseTodos = base.getAll(ownerId);
+    if (!ownerReads.has(ownerId)) {
+      ownerReads.set(
+        ownerId,
+        new Map(baseTodos.map((todo) => [todo.id, todo.version])),
+      );
+    }
+    const todos = baseTodos.filter((todo) => !staged.has(todo.id));
+    for (const todo of staged.values()) {
+      if (todo?.ownerId === ownerId) {
+        todos.push(todo);
+      }
+    }
+    return todos;
+  };
+
+  return {
+    getAll,
+    query: (query: TodoQuery) => queryTodos(getAll(query.ownerId), query),
+    // The base index only covers committed todos, so the transaction indexes its own view of the owner.
+    search: (ownerId: string, text: string, limit: number) => {
+      const todos = new Map(getAll(ownerId).map((todo) => [todo.id, todo]));
+      const searchIndex = createSearchIndex();
+      for (const todo of todos.values()) {
+        searchIndex.add(todo.id, todo.title);
+      }
+      return searchIndex.search(text, limit).flatMap(({ id, score }) => {
+        const todo = todos.get(id);
+        return todo ? [{ todo, score }] : [];
+      });
+    },
+    getById,
+    insert: (todo: TodoRecord) => stage(todo.id, todo),
+    replace: (todo: TodoRecord) => stage(todo.id, todo),
+    deleteById: (id: string) => stage(id, null),
+    applyWrites: (writes: TodoWrite[]) => {
+      for (const todoWrite of writes) {
+        if (todoWrite.op === "put") {
+          stage(todoWrite.todo.id, todoWrite.todo);
+        } else {
+          stage(todoWrite.id, null);
+        }
+      }
+    },
+    commit: () => {
+      const changed =
+        [...baseVersions].some(
+          ([id, version]) => base.getById(id)?.version !== version,
+        ) ||
+        [...ownerReads].some(([ownerId, versions]) => {
+          const todos = base.getAll(ownerId);
+          return (
+            todos.length !== versions.size ||
+            todos.some((todo) => versions.get(todo.id) !== todo.version)
+          );
+        });
+      if (changed) {
+        throw new ConflictError("Todos changed while the transaction ran");
+      }
+
+      base.applyWrites(
+        [...staged].map(
+          ([id, todo]): TodoWrite =>
+            todo ? { op: "put", todo } : { op: "delete", id },
+        ),
+      );
+    },
+  };
+}
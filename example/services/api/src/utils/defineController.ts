@@ -0,0 +1,14 @@
+import type {
+  ControllerAuth,
+  ControllerModule,
+  ControllerSchema,
+} from "../types.ts";
+
+export function defineController<
+  TSchema extends ControllerSchema,
+  TAuth extends ControllerAuth,
+>(
+  controller: ControllerModule<TSchema, TAuth>,
+): ControllerModule<TSchema, TAuth> {
+  return controller;
+}
@@ -0,0 +1,191 @@
+import { readdir } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import type { Route } from "../types.ts";
+
+const methodOrder = [
+  "GET",
+  "HEAD",
+  "POST",
+  "PUT",
+  "PATCH",
+  "DELETE",
+  "OPTIONS",
+];
+const paramSegmentPattern = /^\[([a-zA-Z_][a-zA-Z0-9_]*)\]$/;
+const staticSegmentPattern = /^[a-zA-Z0-9._~-]+$/;
+
+type DiscoveredFile = {
+  method: string;
+  pathname: string;
+  shape: string;
+  file: string;
+};
+
+function toPathSegment(directoryName: string, file: string): string {
+  const paramMatch = paramSegmentPattern.exec(directoryName);
+  if (paramMatch) {
+    return `:${paramMatch[1]}`;
+  }
+
+  if (!staticSegmentPattern.test(directoryName)) {
+    throw new Error(
+      `Invalid controller path segment "${directoryName}" in ${file}`,
+    );
+  }
+
+  return directoryName;
+}
+
+function toDiscoveredFile(
+  controllersDirectory: string,
+  file: string,
+): DiscoveredFile {
+  const relativePath = path.relative(controllersDirectory, file);
+  const directoryNames = path.dirname(relativePath).split(path.sep);
+  const method = path.basename(relativePath, ".ts").toUpperCase();
+
+  if (!methodOrder.includes(method)) {
+    throw new Error(`Controller file name is not an HTTP method: ${file}`);
+  }
+
+  const segments = directoryNames
+    .filter((directoryName) => directoryName !== ".")
+    .map((directoryName) => toPathSegment(directoryName, file));
+
+  const paramNames = segments.filter((segment) => segment.startsWith(":"));
+  if (new Set(paramNames).size !== paramNames.length) {
+    throw new Error(`Controller path repeats a parameter name: ${file}`);
+  }
+
+  const shapeSegments = segments.map((segment) =>
+    segment.startsWith(":") ? ":" : segment,
+  );
+
+  return {
+    method,
+    pathname: `/${segments.join("/")}`,
+    shape: `/${shapeSegments.join("/")}`,
+    file,
+  };
+}
+
+function compareDiscoveredFiles(
+  left: DiscoveredFile,
+  right: DiscoveredFile,
+): number {
+  const leftSegments = left.pathname.split("/");
+  const rightSegments = right.pathname.split("/");
+
+  for (
+    let index = 0;
+    index < Math.min(leftSegments.length, rightSegments.length);
+    index += 1
+  ) {
+    const leftSegment = leftSegments[index];
+    const rightSegment = rightSegments[index];
+    if (leftSegment === rightSegment) {
+      continue;
+    }
+
+    const leftIsParam = leftSegment.startsWith(":");
+    const rightIsParam = rightSegment.startsWith(":");
+    if (leftIsParam !== rightIsParam) {
+      return leftIsParam ? 1 : -1;
+    }
+
+    return leftSegment < rightSegment ? -1 : 1;
+  }
+
+  if (leftSegments.length !== rightSegments.length) {
+    return leftSegments.length - rightSegments.length;
+  }
+
+  return methodOrder.indexOf(left.method) - methodOrder.indexOf(right.method);
+}
+
+export async function discoverRoutes(
+  controllersDirectory: URL,
+): Promise<Route[]> {
+  const directory = fileURLToPath(controllersDirectory);
+  const entries = await readdir(directory, {
+    recursive: true,
+    withFileTypes: true,
+  });
+
+  const files = entries
+    .filter((entry) => entry.isFile())
+    .map((entry) =>
+      toDiscoveredFile(directory, path.join(entry.parentPath, entry.name)),
+    );
+
+  const filesByShape = new Map<string, DiscoveredFile>();
+  for (const file of files) {
+    const key = `${file.method} ${file.shape}`;
+    const existing = filesByShape.get(key);
+    if (existing) {
+      throw new Error(
+        `Conflicting controller routes ${file.method} ${existing.pathname} and ${file.method} ${file.pathname}: ${existing.file}, ${file.file}`,
+      );
+    }
+    filesByShape.set(key, file);
+  }
+
+  return files.sort(compareDiscoveredFiles).map((file) => ({
+    method: file.method,
+    pathname: file.pathname,
+    pattern: new URLPattern({ pathname: file.pathname }),
+    controller: import(pathToFileURL(file.file).href),
+  }));
+}
+
+export async function findRouteDrift(
+  declaredRoutes: Route[],
+  discoveredRoutes: Route[],
+): Promise<string[]> {
+  const drift: string[] = [];
+  const discoveredByKey = new Map(
+    discoveredRoutes.map((route) => [
+      `${route.method} ${route.pathname}`,
+      route,
+    ]),
+  );
+  const declaredKeys = new Set<string>();
+
+  for (const route of declaredRoutes) {
+    const key = `${route.method} ${route.pathname}`;
+    if (declaredKeys.has(key)) {
+      drift.push(`${key} is declared more than once`);
+      continue;
+    }
+    declaredKeys.add(key);
+
+    if (route.pattern.pathname !== route.pathname) {
+      drift.push(
+        `${key} uses pattern ${route.pattern.pathname}, expected ${route.pathname}`,
+      );
+    }
+
+    const discovered = discoveredByKey.get(key);
+    if (!discovered) {
+      drift.push(`${key} has no controller file`);
+      continue;
+    }
+
+    const [declaredModule, discoveredModule] = await Promise.all([
+      route.controller,
+      discovered.controller,
+    ]);
+    if (declaredModule.default !== discoveredModule.default) {
+      drift.push(`${key} imports a different controller than its file path`);
+    }
+  }
+
+  for (const key of discoveredByKey.keys()) {
+    if (!declaredKeys.has(key)) {
+      drift.push(`${key} has a controller file but no route entry`);
+    }
+  }
+
+  return drift;
+}
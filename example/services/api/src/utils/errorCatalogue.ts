@@ -0,0 +1,31 @@
+import * as errors from "../errors.ts";
+import { AppError } from "../errors.ts";
+
+export type ErrorCatalogueEntry = {
+  code: string;
+  status: number;
+  title: string;
+  // Relative to the server's public base URL, which problem responses resolve it against.
+  type: string;
+};
+
+// Built from the exported AppError subclasses so a new error class is documented without extra wiring.
+export function createErrorCatalogue(): ErrorCatalogueEntry[] {
+  const entries = new Map<string, ErrorCatalogueEntry>();
+  for (const value of Object.values(errors)) {
+    if (typeof value !== "function" || !(value.prototype instanceof AppError)) {
+      continue;
+    }
+    const error = new (value as new (message: string) => AppError)("");
+    entries.set(error.code, {
+      code: error.code,
+      status: error.statusCode,
+      title: error.title,
+      type: error.type,
+    });
+  }
+  return [...entries.values()].sort(
+    (left, right) =>
+      left.status - right.status || left.code.localeCompare(right.code),
+  );
+}
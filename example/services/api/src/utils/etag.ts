@@ -0,0 +1,28 @@
+type Versioned = {
+  version: number;
+};
+
+export function toEtag(record: Versioned): string {
+  return `"${record.version}"`;
+}
+
+function parseEtags(header: string): string[] {
+  return header
+    .split(",")
+    .map((etag) => etag.trim())
+    .filter((etag) => etag.length > 0);
+}
+
+// If-Match uses the strong comparison from RFC 9110, so weak validators never match.
+export function matchesIfMatch(header: string, etag: string): boolean {
+  return parseEtags(header).some(
+    (candidate) => candidate === "*" || candidate === etag,
+  );
+}
+
+// If-None-Match uses the weak comparison, ignoring any W/ prefix.
+export function matchesIfNoneMatch(header: string, etag: string): boolean {
+  return parseEtags(header).some(
+    (candidate) => candidate === "*" || candidate.replace(/^W\//, "") === etag,
+  );
+}
@@ -1,13 +1,284 @@
+import { createWriteStream, type WriteStream } from "node:fs";
 import type http from "node:http";
-import { ValidationError } from "../errors.ts";
-import type { Context } from "../types.ts";
+import type { Transform } from "node:stream";
+import zlib from "node:zlib";
+import {
+  PayloadTooLargeError,
+  UnsupportedMediaTypeError,
+  ValidationError,
+} from "../errors.ts";
+import type { Context, UploadedFile } from "../types.ts";
 
-type BodyMode = "text" | "json";
+export type BodyMode = "text" | "json" | "form" | "multipart";
 
 type BodyOptions = {
   maxBytes?: number;
+  uploadedFiles?: UploadedFile[];
 };
 
+type MultipartValue = string | UploadedFile;
+
+const decoders: Record<string, () => Transform> = {
+  gzip: zlib.createGunzip,
+  deflate: zlib.createInflate,
+  br: zlib.createBrotliDecompress,
+};
+
+function createDecoder(request: http.IncomingMessage): Transform | undefined {
+  const encoding = (request.headers["content-encoding"] ?? "identity")
+    .trim()
+    .toLowerCase();
+  if (encoding === "identity") {
+    return undefined;
+  }
+
+  const createStream = decoders[encoding];
+  if (!createStream) {
+    throw new UnsupportedMediaTypeError(
+      `Unsupported content-encoding: ${encoding}`,
+    );
+  }
+
+  const decoder = createStream();
+  request.on("error", (error) => decoder.destroy(error));
+  request.pipe(decoder);
+  return decoder;
+}
+
+// zlib and brotli report undecodable input with these codes; a client abort or the size limit is not the body's fault.
+function isDecodeError(error: unknown): boolean {
+  const code = (error as NodeJS.ErrnoException).code ?? "";
+  return (
+    ["Z_DATA_ERROR", "Z_BUF_ERROR", "Z_NEED_DICT"].includes(code) ||
+    code.startsWith("ERR__ERROR_")
+  );
+}
+
+// The limit applies to decoded bytes so a small compressed body cannot expand without bound.
+async function* readChunks(
+  request: http.IncomingMessage,
+  maxBytes: number,
+): AsyncGenerator<Buffer> {
+  const decoder = createDecoder(request);
+  let totalBytes = 0;
+
+  try {
+    for await (const chunk of decoder ?? request) {
+      const bufferChunk =
+        typeof chunk === "string" ? Buffer.from(chunk) : chunk;
+      totalBytes += bufferChunk.length;
+
+      if (totalBytes > maxBytes) {
+        throw new PayloadTooLargeError("Request body too large");
+      }
+
+      yield bufferChunk;
+    }
+  } catch (error) {
+    if (decoder && isDecodeError(error)) {
+      throw new ValidationError("Invalid compressed body");
+    }
+    throw error;
+  }
+}
+
+function addValue<TValue>(
+  target: Record<string, TValue | TValue[]>,
+  name: string,
+  value: TValue,
+): void {
+  const existing = target[name];
+  if (existing === undefined) {
+    target[name] = value;
+  } else if (Array.isArray(existing)) {
+    existing.push(value);
+  } else {
+    target[name] = [existing, value];
+  }
+}
+
+function parseForm(text: string): Record<string, string | string[]> {
+  const form: Record<string, string | string[]> = {};
+  for (const [name, value] of new URLSearchParams(text)) {
+    addValue(form, name, value);
+  }
+  return form;
+}
+
+function getBoundary(request: http.IncomingMessage): string {
+  const contentType = request.headers["content-type"] ?? "";
+  const match = /;\s*boundary=(?:"([^"]+)"|([^;\s]+))/i.exec(contentType);
+  const boundary = match?.[1] ?? match?.[2];
+  if (!boundary) {
+    throw new ValidationError("Multipart body is missing a boundary");
+  }
+  return boundary;
+}
+
+function parsePartHeaders(headerText: string): {
+  name: string;
+  filename?: string;
+  contentType: string;
+} {
+  const headers = new Map<string, string>();
+  for (const line of headerText.split("\r\n")) {
+    const separator = line.indexOf(":");
+    if (separator > 0) {
+      headers.set(
+        line.slice(0, separator).trim().toLowerCase(),
+        line.slice(separator + 1).trim(),
+      );
+    }
+  }
+
+  const disposition = headers.get("content-disposition") ?? "";
+  const name = /;\s*name="([^"]*)"/i.exec(disposition)?.[1];
+  if (!/^form-data/i.test(disposition) || name === undefined) {
+    throw new ValidationError("Multipart part is missing a form-data name");
+  }
+
+  return {
+    name,
+    filename: /;\s*filename="([^"]*)"/i.exec(disposition)?.[1],
+    contentType: headers.get("content-type") ?? "text/plain",
+  };
+}
+
+function writeChunk(stream: WriteStream, chunk: Buffer): Promise<void> {
+  return new Promise((resolve, reject) => {
+    stream.write(chunk, (error) => (error ? reject(error) : resolve()));
+  });
+}
+
+function closeStream(stream: WriteStream): Promise<void> {
+  return new Promise((resolve, reject) => {
+    stream.end((error?: Error | null) => (error ? reject(error) : resolve()));
+  });
+}
+
+async function parseMultipart(
+  context: Context,
+  request: http.IncomingMessage,
+  maxBytes: number,
+  uploadedFiles: UploadedFile[],
+): Promise<Record<string, MultipartValue | MultipartValue[]>> {
+  const opening = Buffer.from(`--${getBoundary(request)}`);
+  const delimiter = Buffer.concat([Buffer.from("\r\n"), opening]);
+  const headerEnd = Buffer.from("\r\n\r\n");
+  const result: Record<string, MultipartValue | MultipartValue[]> = {};
+
+  let state: "preamble" | "boundary" | "headers" | "body" | "done" = "preamble";
+  let buffer = Buffer.alloc(0);
+  let part: ReturnType<typeof parsePartHeaders> | undefined;
+  let fieldChunks: Buffer[] = [];
+  let file: { upload: UploadedFile; stream: WriteStream } | undefined;
+
+  const writePartData = async (data: Buffer) => {
+    if (data.length === 0) {
+      return;
+    }
+    if (file) {
+      file.upload.size += data.length;
+      await writeChunk(file.stream, data);
+    } else {
+      fieldChunks.push(data);
+    }
+  };
+
+  const finishPart = async () => {
+    if (!part) {
+      return;
+    }
+    if (file) {
+      await closeStream(file.stream);
+      addValue(result, part.name, file.upload);
+    } else {
+      addValue(result, part.name, Buffer.concat(fieldChunks).toString("utf8"));
+    }
+    part = undefined;
+    file = undefined;
+    fieldChunks = [];
+  };
+
+  try {
+    for await (const chunk of readChunks(request, maxBytes)) {
+      buffer = Buffer.concat([buffer, chunk]);
+
+      let progressed = true;
+      while (progressed && state !== "done") {
+        progressed = false;
+
+        if (state === "preamble") {
+          const index = buffer.indexOf(opening);
+          if (index !== -1) {
+            buffer = buffer.subarray(index + opening.length);
+            state = "boundary";
+            progressed = true;
+          }
+        } else if (state === "boundary") {
+          if (buffer.length >= 2) {
+            const suffix = buffer.subarray(0, 2).toString("latin1");
+            if (suffix === "--") {
+              state = "done";
+            } else if (suffix === "\r\n") {
+              buffer = buffer.subarray(2);
+              state = "headers";
+              progressed = true;
+            } else {
+              throw new ValidationError("Malformed multipart boundary");
+            }
+          }
+        } else if (state === "headers") {
+          const index = buffer.indexOf(headerEnd);
+          if (index !== -1) {
+            part = parsePartHeaders(buffer.subarray(0, index).toString("utf8"));
+            buffer = buffer.subarray(index + headerEnd.length);
+            if (part.filename !== undefined) {
+              const path = await context.temporaryFiles.create();
+              const upload: UploadedFile = {
+                filename: part.filename,
+                contentType: part.contentType,
+                path,
+                size: 0,
+              };
+              uploadedFiles.push(upload);
+              file = { upload, stream: createWriteStream(path) };
+            }
+            state = "body";
+            progressed = true;
+          }
+        } else if (state === "body") {
+          const index = buffer.indexOf(delimiter);
+          if (index !== -1) {
+            await writePartData(buffer.subarray(0, index));
+            buffer = buffer.subarray(index + delimiter.length);
+            await finishPart();
+            state = "boundary";
+            progressed = true;
+          } else {
+            // Keep enough bytes to recognise a delimiter split across chunks.
+            const safeLength = buffer.length - delimiter.length + 1;
+            if (safeLength > 0) {
+              await writePartData(buffer.subarray(0, safeLength));
+              buffer = buffer.subarray(safeLength);
+            }
+          }
+        }
+      }
+    }
+  } finally {
+    if (file) {
+      file.stream.destroy();
+    }
+  }
+
+  if (state !== "done") {
+    throw new ValidationError("Multipart body ended before the final boundary");
+  }
+
+  return result;
+}
+
 export async function getBodyFromRequest(
   context: Context,
   request: http.IncomingMessage,
@@ -15,18 +286,19 @@ export async function getBodyFromRequest(
   options: BodyOptions = {},
 ): Promise<unknown> {
   const maxBytes = options.maxBytes ?? context.config.maxBodyBytes;
-  const chunks: Buffer[] = [];
-  let totalBytes = 0;
 
-  for await (const chunk of request) {
-    const bufferChunk = typeof chunk === "string" ? Buffer.from(chunk) : chunk;
-    totalBytes += bufferChunk.length;
-
-    if (totalBytes > maxBytes) {
-      throw new ValidationError("Request body too large");
-    }
+  if (mode === "multipart") {
+    return parseMultipart(
+      context,
+      request,
+      maxBytes,
+      options.uploadedFiles ?? [],
+    );
+  }
 
-    chunks.push(bufferChunk);
+  const chunks: Buffer[] = [];
+  for await (const chunk of readChunks(request, maxBytes)) {
+    chunks.push(chunk);
   }
 
   if (chunks.length === 0) {
@@ -39,6 +311,10 @@ export async function getBodyFromRequest(
     return text;
   }
 
+  if (mode === "form") {
+    return parseForm(text);
+  }
+
   if (text.length === 0) {
     return undefined;
   }
@@ -0,0 +1,83 @@
+import { createHash } from "node:crypto";
+import type http from "node:http";
+import { ConflictError, IdempotencyKeyReusedError } from "../errors.ts";
+import { IdempotencyHeadersSchema } from "../schemas/idempotency.ts";
+import type { Context, Principal } from "../types.ts";
+import { getSentJson, handleHttpError, sendJson } from "./http.ts";
+import { parseRequestInput } from "./parseRequestInput.ts";
+import type { SignalledWork } from "./requestSignal.ts";
+
+function createFingerprint(
+  request: http.IncomingMessage,
+  pathname: string,
+  body: unknown,
+): string {
+  return createHash("sha256")
+    .update(JSON.stringify({ method: request.method, pathname, body }))
+    .digest("hex");
+}
+
+// Runs the handler once per Idempotency-Key and replays its JSON or problem response for retries with the same payload.
+export async function handleIdempotentRequest(
+  context: Context,
+  request: http.IncomingMessage,
+  response: http.ServerResponse,
+  principal: Principal | undefined,
+  pathname: string,
+  body: unknown,
+  start: () => SignalledWork<void>,
+): Promise<void> {
+  const headerKey = parseRequestInput(
+    IdempotencyHeadersSchema,
+    request.headers,
+    "headers",
+  )["idempotency-key"];
+  if (headerKey === undefined) {
+    await start().result;
+    return;
+  }
+
+  // Keys are namespaced per principal so one tenant can never replay another tenant's response.
+  const key = `${principal?.id ?? "anonymous"}:${headerKey}`;
+
+  const fingerprint = createFingerprint(request, pathname, body);
+  const existing = context.idempotencyKeys.get(key);
+  if (existing) {
+    if (existing.fingerprint !== fingerprint) {
+      throw new IdempotencyKeyReusedError(
+        "Idempotency-Key was already used with a different request",
+      );
+    }
+    if (!existing.response) {
+      throw new ConflictError(
+        "A request with this Idempotency-Key is still in progress",
+      );
+    }
+    response.setHeader("idempotent-replayed", "true");
+    sendJson(
+      context,
+      response,
+      existing.response.statusCode,
+      existing.response.body,
+      existing.response.contentType,
+    );
+    return;
+  }
+
+  context.idempotencyKeys.start(key, fingerprint);
+  const { result, settled } = start();
+  try {
+    await result;
+  } catch (error) {
+    handleHttpError(context, response, error);
+  }
+
+  // Server errors are not replayed so a retry can still succeed, but a 504 or 503 may have abandoned a
+  // handler that is still running; until it settles, retries get the in-progress conflict instead of a second run.
+  const sent = getSentJson(response);
+  if (sent && sent.statusCode < 500) {
+    context.idempotencyKeys.complete(key, sent);
+  } else {
+    settled.then(() => context.idempotencyKeys.release(key));
+  }
+}
@@ -1,41 +1,422 @@
 import type http from "node:http";
+import type { Writable } from "node:stream";
+import zlib from "node:zlib";
 import { z } from "zod";
-import { AppError } from "../errors.ts";
+import {
+  AppError,
+  InternalServerError,
+  NotAcceptableError,
+  ValidationError,
+} from "../errors.ts";
+import type { Context, SentJsonResponse } from "../types.ts";
+
+type ContentEncoding = "br" | "gzip" | "deflate";
+
+const encodingPreference: ContentEncoding[] = ["br", "gzip", "deflate"];
+
+export function appendVary(response: http.ServerResponse, header: string) {
+  const existing = response.getHeader("vary");
+  const values = existing ? String(existing).split(/\s*,\s*/) : [];
+  if (!values.includes(header)) {
+    response.setHeader("vary", [...values, header].join(", "));
+  }
+}
+
+function negotiateEncoding(
+  acceptEncoding: string | undefined,
+): ContentEncoding | undefined {
+  if (!acceptEncoding) {
+    return undefined;
+  }
+
+  const qualities = new Map<string, number>();
+  for (const part of acceptEncoding.split(",")) {
+    const [coding, ...parameters] = part.split(";").map((item) => item.trim());
+    const qualityParameter = parameters.find((parameter) =>
+      parameter.toLowerCase().startsWith("q="),
+    );
+    const quality = qualityParameter ? Number(qualityParameter.slice(2)) : 1;
+    qualities.set(coding.toLowerCase(), Number.isNaN(quality) ? 0 : quality);
+  }
+
+  let selected: ContentEncoding | undefined;
+  let selectedQuality = 0;
+  for (const encoding of encodingPreference) {
+    const quality = qualities.get(encoding) ?? qualities.get("*") ?? 0;
+    if (quality > selectedQuality) {
+      selected = encoding;
+      selectedQuality = quality;
+    }
+  }
+  return selected;
+}
+
+function createEncoder(encoding: ContentEncoding): zlib.BrotliCompress {
+  if (encoding === "br") {
+    return zlib.createBrotliCompress();
+  }
+  return encoding === "gzip" ? zlib.createGzip() : zlib.createDeflate();
+}
+
+function startBody(
+  response: http.ServerResponse,
+  statusCode: number,
+  contentType: string,
+  encoding: ContentEncoding | undefined,
+): Writable {
+  appendVary(response, "accept-encoding");
+
+  if (!encoding) {
+    response.writeHead(statusCode, { "content-type": contentType });
+    return response;
+  }
+
+  response.writeHead(statusCode, {
+    "content-type": contentType,
+    "content-encoding": encoding,
+  });
+  const encoder = createEncoder(encoding);
+  encoder.pipe(response);
+  return encoder;
+}
+
+const sentJson = new WeakMap<http.ServerResponse, SentJsonResponse>();
+
+export function getSentJson(
+  response: http.ServerResponse,
+): SentJsonResponse | undefined {
+  return sentJson.get(response);
+}
 
 export function sendJson(
+  context: Context,
   response: http.ServerResponse,
   statusCode: number,
   data: unknown,
+  contentType = "application/json; charset=utf-8",
 ): void {
-  response.writeHead(statusCode, {
-    "content-type": "application/json; charset=utf-8",
+  sentJson.set(response, { statusCode, body: data, contentType });
+  const body = Buffer.from(JSON.stringify(data));
+  const encoding =
+    body.length >= context.config.compressionThresholdBytes
+      ? negotiateEncoding(response.req.headers["accept-encoding"])
+      : undefined;
+
+  startBody(response, statusCode, contentType, encoding).end(body);
+}
+
+type AcceptedRange = {
+  range: string;
+  quality: number;
+  order: number;
+};
+
+function rangeSpecificity(range: string): number {
+  return range === "*/*" ? 0 : range.endsWith("/*") ? 1 : 2;
+}
+
+function parseAccept(accept: string): AcceptedRange[] {
+  return accept
+    .split(",")
+    .map((part, order) => {
+      const [range, ...parameters] = part.split(";").map((item) => item.trim());
+      const qualityParameter = parameters.find((parameter) =>
+        parameter.toLowerCase().startsWith("q="),
+      );
+      const quality = qualityParameter ? Number(qualityParameter.slice(2)) : 1;
+      return {
+        range: range.toLowerCase(),
+        quality: Number.isNaN(quality) ? 0 : quality,
+        order,
+      };
+    })
+    .filter((accepted) => accepted.range.length > 0)
+    .sort((left, right) => {
+      if (left.quality !== right.quality) {
+        return right.quality - left.quality;
+      }
+      return (
+        rangeSpecificity(right.range) - rangeSpecificity(left.range) ||
+        left.order - right.order
+      );
+    });
+}
+
+function matchesRange(range: string, format: string): boolean {
+  if (range === "*/*" || range === format) {
+    return true;
+  }
+  return range.endsWith("/*") && format.startsWith(range.slice(0, -1));
+}
+
+// A format takes the quality of its most specific matching range, so `application/json;q=0, */*` still excludes JSON.
+function findFormatRange(
+  ranges: AcceptedRange[],
+  format: string,
+): AcceptedRange | undefined {
+  let selected: AcceptedRange | undefined;
+  for (const accepted of ranges) {
+    if (
+      matchesRange(accepted.range, format) &&
+      (!selected ||
+        rangeSpecificity(accepted.range) > rangeSpecificity(selected.range))
+    ) {
+      selected = accepted;
+    }
+  }
+  return selected;
+}
+
+export function negotiateFormat<TFormat extends string>(
+  accept: string | undefined,
+  formats: TFormat[],
+): TFormat {
+  if (!accept || accept.trim().length === 0) {
+    return formats[0];
+  }
+
+  const ranges = parseAccept(accept);
+  let selected: { format: TFormat; rank: number; quality: number } | undefined;
+  for (const format of formats) {
+    const accepted = findFormatRange(ranges, format);
+    if (!accepted || accepted.quality === 0) {
+      continue;
+    }
+    // Equal qualities go to the range listed first after sorting, then to the server's order of formats.
+    const rank = ranges.indexOf(accepted);
+    if (
+      !selected ||
+      accepted.quality > selected.quality ||
+      (accepted.quality === selected.quality && rank < selected.rank)
+    ) {
+      selected = { format, rank, quality: accepted.quality };
+    }
+  }
+  if (selected) {
+    return selected.format;
+  }
+
+  throw new NotAcceptableError(
+    `None of the accepted media types are available. Available: ${formats.join(", ")}`,
+  );
+}
+
+function waitForDrain(
+  target: Writable,
+  response: http.ServerResponse,
+): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      target.off("drain", done);
+      response.off("close", done);
+      resolve();
+    };
+    target.on("drain", done);
+    response.on("close", done);
   });
-  response.end(JSON.stringify(data));
+}
+
+// Streamed bodies have no known size up front, so they compress whenever the client accepts it.
+async function streamLines(
+  response: http.ServerResponse,
+  statusCode: number,
+  contentType: string,
+  lines: Iterable<string>,
+): Promise<void> {
+  const target = startBody(
+    response,
+    statusCode,
+    contentType,
+    negotiateEncoding(response.req.headers["accept-encoding"]),
+  );
+
+  for (const line of lines) {
+    if (response.destroyed) {
+      target.destroy();
+      return;
+    }
+    if (!target.write(line)) {
+      await waitForDrain(target, response);
+    }
+  }
+  target.end();
+}
+
+export async function sendNdjson(
+  response: http.ServerResponse,
+  statusCode: number,
+  rows: Iterable<unknown>,
+): Promise<void> {
+  function* toLines() {
+    for (const row of rows) {
+      yield `${JSON.stringify(row)}\n`;
+    }
+  }
+
+  await streamLines(
+    response,
+    statusCode,
+    "application/x-ndjson; charset=utf-8",
+    toLines(),
+  );
+}
+
+function toCsvField(value: unknown): string {
+  if (value === undefined || value === null) {
+    return "";
+  }
+
+  let text = typeof value === "string" ? value : JSON.stringify(value);
+  // Spreadsheet apps evaluate cells starting with these characters as formulas.
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+export async function sendCsv(
+  response: http.ServerResponse,
+  statusCode: number,
+  columns: string[],
+  rows: Iterable<Record<string, unknown>>,
+): Promise<void> {
+  function* toLines() {
+    yield `${columns.map(toCsvField).join(",")}\r\n`;
+    for (const row of rows) {
+      yield `${columns.map((column) => toCsvField(row[column])).join(",")}\r\n`;
+    }
+  }
+
+  await streamLines(response, statusCode, "text/csv; charset=utf-8", toLines());
+}
+
+type ProblemError = {
+  detail: string;
+  pointer?: string;
+  parameter?: string;
+  header?: string;
+};
+
+function toJsonPointer(path: (string | number)[]): string {
+  return `#${path
+    .map(
+      (segment) =>
+        `/${String(segment).replaceAll("~", "~0").replaceAll("/", "~1")}`,
+    )
+    .join("")}`;
+}
+
+function toProblemErrors(error: ValidationError): ProblemError[] {
+  return error.issues.map((issue) => {
+    const [name, ...rest] = issue.path;
+    if (error.location === "headers" && name !== undefined) {
+      return { detail: issue.message, header: String(name) };
+    }
+    if (
+      (error.location === "query" || error.location === "params") &&
+      name !== undefined &&
+      rest.length === 0
+    ) {
+      return { detail: issue.message, parameter: String(name) };
+    }
+    return { detail: issue.message, pointer: toJsonPointer(issue.path) };
+  });
+}
+
+const errorContentTypes = ["application/json", "application/problem+json"];
+
+function useProblemFormat(
+  context: Context,
+  response: http.ServerResponse,
+): boolean {
+  if (context.config.errorFormat !== "negotiate") {
+    return context.config.errorFormat === "problem";
+  }
+
+  appendVary(response, "accept");
+  try {
+    return (
+      negotiateFormat(response.req.headers.accept, errorContentTypes) ===
+      "application/problem+json"
+    );
+  } catch {
+    // An Accept header that rules out both still gets an error body rather than a second 406.
+    return false;
+  }
+}
+
+function sendError(
+  context: Context,
+  response: http.ServerResponse,
+  error: AppError,
+): void {
+  const issues = error instanceof ValidationError ? error.issues : [];
+
+  if (!useProblemFormat(context, response)) {
+    sendJson(context, response, error.statusCode, {
+      error: error.detail,
+      code: error.code,
+      ...(issues.length > 0 ? { details: issues } : {}),
+    });
+    return;
+  }
+
+  sendJson(
+    context,
+    response,
+    error.statusCode,
+    {
+      type: new URL(error.type, context.config.publicBaseUrl).href,
+      title: error.title,
+      status: error.statusCode,
+      detail: error.detail,
+      // The path alone, so query values such as filters or tokens never end up in error bodies or logs.
+      instance:
+        error.instance ??
+        new URL(response.req.url ?? "/", context.config.publicBaseUrl).pathname,
+      code: error.code,
+      ...(error instanceof ValidationError && issues.length > 0
+        ? { errors: toProblemErrors(error) }
+        : {}),
+    },
+    "application/problem+json; charset=utf-8",
+  );
 }
 
 export function handleHttpError(
+  context: Context,
   response: http.ServerResponse,
   error: unknown,
 ): void {
+  // A response that already started (a stream, or one sent before a deadline fired) cannot carry an error body.
+  if (response.headersSent) {
+    response.destroy();
+    return;
+  }
+
   if (error instanceof z.ZodError) {
-    sendJson(response, 400, {
-      error: "Validation failed",
-      code: "VALIDATION_ERROR",
-      details: error.issues,
-    });
+    sendError(
+      context,
+      response,
+      new ValidationError("Validation failed", { issues: error.issues }),
+    );
     return;
   }
 
   if (error instanceof AppError) {
-    sendJson(response, error.statusCode, {
-      error: error.message,
-      code: error.code,
-    });
+    sendError(context, response, error);
     return;
   }
 
-  sendJson(response, 500, {
-    error: "Internal server error",
-    code: "INTERNAL_SERVER_ERROR",
+  context.logger.error("Unhandled error", {
+    requestId: response.getHeader("x-request-id"),
+    method: response.req.method,
+    path: response.req.url,
+    error,
   });
+  sendError(
+    context,
+    response,
+    new InternalServerError("Internal server error"),
+  );
 }
@@ -1,6 +1,218 @@
+import { z } from "zod";
 import { routes } from "../routes.ts";
+import * as errorSchemas from "../schemas/errors.ts";
+import { IdempotencyHeadersSchema } from "../schemas/idempotency.ts";
+import * as patchSchemas from "../schemas/patch.ts";
+import * as todoSchemas from "../schemas/todos.ts";
+import type { ControllerModule } from "../types.ts";
+import { createErrorCatalogue } from "./errorCatalogue.ts";
+import {
+  type JsonSchema,
+  type JsonSchemaOptions,
+  toObjectSchema,
+  zodToComponentSchema,
+  zodToJsonSchema,
+} from "./zodToJsonSchema.ts";
+
+const schemaModules: Record<string, unknown>[] = [
+  errorSchemas,
+  patchSchemas,
+  todoSchemas,
+];
+
+function getComponentNames(): Map<z.ZodTypeAny, string> {
+  const componentNames = new Map<z.ZodTypeAny, string>();
+  for (const schemaModule of schemaModules) {
+    for (const [exportName, value] of Object.entries(schemaModule)) {
+      if (value instanceof z.ZodType && exportName.endsWith("Schema")) {
+        componentNames.set(value, exportName.slice(0, -"Schema".length));
+      }
+    }
+  }
+  return componentNames;
+}
+
+function createParameters(
+  controller: ControllerModule,
+  options: JsonSchemaOptions,
+): JsonSchema[] {
+  const parameters: JsonSchema[] = [];
+  const locations = [
+    ["path", controller.schema?.params],
+    ["query", controller.schema?.query],
+    ["header", controller.schema?.headers],
+    ["header", controller.idempotent ? IdempotencyHeadersSchema : undefined],
+  ] as const;
+
+  for (const [location, schema] of locations) {
+    if (!schema) {
+      continue;
+    }
+
+    for (const [name, value] of Object.entries(toObjectSchema(schema).shape)) {
+      const property = value as z.ZodTypeAny;
+      parameters.push({
+        name,
+        in: location,
+        required: location === "path" || !property.isOptional(),
+        schema: zodToJsonSchema(property, options),
+      });
+    }
+  }
+
+  return parameters;
+}
+
+function createSuccessContent(
+  controller: ControllerModule,
+  responseSchema: z.ZodTypeAny,
+  options: JsonSchemaOptions,
+): Record<string, unknown> {
+  const content: Record<string, unknown> = {};
+  const rowSchema = controller.schema?.row;
+
+  for (const format of controller.formats ?? ["application/json"]) {
+    if (format === "application/json") {
+      content[format] = { schema: zodToJsonSchema(responseSchema, options) };
+    } else if (format === "application/x-ndjson" && rowSchema) {
+      content[format] = {
+        schema: {
+          ...zodToJsonSchema(rowSchema, options),
+          description: "Each line is one JSON-encoded row",
+        },
+      };
+    } else if (format === "text/csv") {
+      content[format] = {
+        schema: {
+          type: "string",
+          description: "RFC 4180 CSV with a header row",
+        },
+      };
+    }
+  }
+
+  return content;
+}
+
+// Statuses the router sends before or around the handler, derived so controllers only declare their own.
+function createRouterResponses(
+  controller: ControllerModule,
+): Record<string, unknown> {
+  const responses: Record<string, unknown> = {};
+  if (controller.schema?.body) {
+    responses["413"] = { description: "Request body too large" };
+  }
+  if (controller.auth !== "public") {
+    responses["401"] = { description: "Missing or invalid credentials" };
+    responses["403"] = { description: "Credentials lack the required scope" };
+  }
+  // Failed authentication is charged to the address even on routes that cost nothing.
+  if (controller.auth !== "public" || controller.rateLimitCost > 0) {
+    responses["429"] = { description: "Rate limit exceeded" };
+  }
+  responses["503"] = { description: "Server is shutting down" };
+  responses["504"] = { description: "Request deadline exceeded" };
+  return responses;
+}
+
+// Integer-like keys enumerate in ascending order, so the merged statuses stay sorted.
+export function getDeclaredResponses(
+  controller: ControllerModule,
+): Record<string, unknown> {
+  return {
+    ...createRouterResponses(controller),
+    ...controller.openapi.responses,
+  };
+}
+
+function createResponses(
+  controller: ControllerModule,
+  options: JsonSchemaOptions,
+): Record<string, unknown> {
+  const responses: Record<string, unknown> = {};
+  const responseSchema = controller.schema?.response;
+
+  for (const [status, response] of Object.entries(
+    getDeclaredResponses(controller),
+  )) {
+    const statusCode = Number(status);
+    let content: Record<string, unknown> | undefined;
+    if (statusCode >= 400) {
+      // Which of the two is sent depends on TODO_API_ERROR_FORMAT and, when negotiating, the Accept header.
+      content = {
+        "application/problem+json": {
+          schema: zodToJsonSchema(errorSchemas.ProblemSchema, options),
+        },
+        "application/json": {
+          schema: zodToJsonSchema(errorSchemas.ErrorResponseSchema, options),
+        },
+      };
+    } else if (
+      responseSchema &&
+      statusCode >= 200 &&
+      statusCode < 300 &&
+      statusCode !== 204
+    ) {
+      content = createSuccessContent(controller, responseSchema, options);
+    }
+
+    responses[status] = content
+      ? { ...(response as Record<string, unknown>), content }
+      : response;
+  }
+
+  return responses;
+}
+
+function createSecurity(
+  controller: ControllerModule,
+): Record<string, string[]>[] {
+  if (controller.auth === "public") {
+    return [];
+  }
+  const scopes = controller.auth.scopes;
+  return [{ bearerAuth: scopes }, { apiKeyAuth: scopes }];
+}
+
+function createOperation(
+  controller: ControllerModule,
+  options: JsonSchemaOptions,
+): Record<string, unknown> {
+  const operation: Record<string, unknown> = {
+    ...controller.openapi,
+    security: createSecurity(controller),
+    responses: createResponses(controller, options),
+  };
+
+  const parameters = createParameters(controller, options);
+  if (parameters.length > 0) {
+    operation.parameters = parameters;
+  }
+
+  const bodySchema = controller.schema?.body;
+  if (bodySchema) {
+    const bodyTypes = controller.bodyTypes ?? ["application/json"];
+    operation.requestBody = {
+      ...(controller.openapi.requestBody as Record<string, unknown>),
+      content: Object.fromEntries(
+        bodyTypes.map((bodyType) => [
+          bodyType,
+          { schema: zodToJsonSchema(bodySchema, options) },
+        ]),
+      ),
+    };
+  }
+
+  return operation;
+}
 
 export async function createOpenApiDocument() {
+  const componentNames = getComponentNames();
+  const options: JsonSchemaOptions = {
+    componentNames,
+    usedComponents: new Set(),
+  };
+
   const pathEntries = await Promise.all(
     routes.map(async (route) => {
       const controllerModule = await route.controller;
@@ -9,7 +221,7 @@ export async function createOpenApiDocument() {
       return {
         openApiPath,
         method: route.method.toLowerCase(),
-        operation: controller.openapi,
+        operation: createOperation(controller, options),
       };
     }),
   );
@@ -22,12 +234,45 @@ export async function createOpenApiDocument() {
     paths[entry.openApiPath][entry.method] = entry.operation;
   }
 
+  const schemasByName = new Map(
+    [...componentNames].map(([schema, name]) => [name, schema]),
+  );
+  const schemas: Record<string, JsonSchema> = {};
+  // Converting a component can reference further components, which extends the set mid-iteration.
+  for (const name of options.usedComponents) {
+    const schema = schemasByName.get(name);
+    if (schema) {
+      schemas[name] = zodToComponentSchema(schema, options);
+    }
+  }
+
   return {
-    openapi: "3.0.0",
+    openapi: "3.1.0",
     info: {
       title: "Todo API Example",
       version: "1.0.0",
     },
     paths,
+    "x-error-catalogue": createErrorCatalogue(),
+    components: {
+      securitySchemes: {
+        bearerAuth: {
+          type: "http",
+          scheme: "bearer",
+          bearerFormat: "JWT",
+          description: "HS256 access token signed with the server's secret",
+        },
+        apiKeyAuth: {
+          type: "apiKey",
+          in: "header",
+          name: "X-API-Key",
+        },
+      },
+      schemas: Object.fromEntries(
+        Object.entries(schemas).sort(([left], [right]) =>
+          left.localeCompare(right),
+        ),
+      ),
+    },
   };
 }
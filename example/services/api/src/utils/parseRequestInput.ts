@@ -0,0 +1,18 @@
+import type { z } from "zod";
+import { ValidationError, type ValidationLocation } from "../errors.ts";
+
+// Tags schema failures with the part of the request they came from so error responses can point at it.
+export function parseRequestInput<TSchema extends z.ZodTypeAny>(
+  schema: TSchema,
+  value: unknown,
+  location: ValidationLocation,
+): z.output<TSchema> {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    throw new ValidationError(`Invalid request ${location}`, {
+      location,
+      issues: result.error.issues,
+    });
+  }
+  return result.data;
+}
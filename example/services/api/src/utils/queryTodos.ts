@@ -0,0 +1,52 @@
+import type { TodoQuery, TodoRecord } from "../types.ts";
+
+function compareValues(left: string, right: string): number {
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+// Ties on the sort field fall back to the id so every todo has exactly one position in a page sequence.
+export function compareTodoKeys(
+  left: { value: string; id: string },
+  right: { value: string; id: string },
+): number {
+  return (
+    compareValues(left.value, right.value) || compareValues(left.id, right.id)
+  );
+}
+
+export function queryTodos(
+  records: Iterable<TodoRecord>,
+  query: TodoQuery,
+): TodoRecord[] {
+  const createdAfter = query.createdAfter
+    ? Date.parse(query.createdAfter)
+    : undefined;
+  const createdBefore = query.createdBefore
+    ? Date.parse(query.createdBefore)
+    : undefined;
+  const direction = query.direction === "asc" ? 1 : -1;
+  const toKey = (todo: TodoRecord) => ({
+    value: todo[query.sort],
+    id: todo.id,
+  });
+
+  const matches: TodoRecord[] = [];
+  for (const todo of records) {
+    const createdAt = Date.parse(todo.createdAt);
+    if (
+      (query.completed === undefined || todo.completed === query.completed) &&
+      (createdAfter === undefined || createdAt > createdAfter) &&
+      (createdBefore === undefined || createdAt < createdBefore) &&
+      (query.after === undefined ||
+        compareTodoKeys(toKey(todo), query.after) * direction > 0)
+    ) {
+      matches.push(todo);
+    }
+  }
+
+  return matches
+    .sort(
+      (left, right) => compareTodoKeys(toKey(left), toKey(right)) * direction,
+    )
+    .slice(0, query.limit);
+}
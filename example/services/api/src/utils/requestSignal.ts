@@ -0,0 +1,92 @@
+import type http from "node:http";
+import { ClientClosedRequestError, DeadlineExceededError } from "../errors.ts";
+import type { Context, Logger } from "../types.ts";
+
+export type RequestSignal = {
+  signal: AbortSignal;
+  dispose: () => void;
+};
+
+export function createRequestSignal(
+  context: Context,
+  response: http.ServerResponse,
+): RequestSignal {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => {
+    controller.abort(
+      new DeadlineExceededError(
+        `Request did not finish within ${context.config.requestTimeoutMs}ms`,
+      ),
+    );
+  }, context.config.requestTimeoutMs);
+  // A response that closes before it finished writing means the client went away.
+  const onClose = () => {
+    if (!response.writableFinished) {
+      controller.abort(new ClientClosedRequestError("Client disconnected"));
+    }
+  };
+
+  response.on("close", onClose);
+  context.inFlightRequests.add(controller);
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timeout);
+      response.off("close", onClose);
+      context.inFlightRequests.delete(controller);
+    },
+  };
+}
+
+// Work started under a request signal: `result` settles as soon as the signal aborts, `settled` only once the work itself does.
+export type SignalledWork<TResult> = {
+  result: Promise<TResult>;
+  settled: Promise<void>;
+};
+
+export function startWithSignal<TResult>(
+  logger: Logger,
+  signal: AbortSignal,
+  work: () => Promise<TResult>,
+): SignalledWork<TResult> {
+  if (signal.aborted) {
+    return {
+      result: Promise.reject(signal.reason),
+      settled: Promise.resolve(),
+    };
+  }
+
+  let onAbort = () => {};
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+  const running = work();
+  // Abandoned work may still fail later; with no response left to report it on, it is logged instead.
+  const settled = running.then(
+    () => {},
+    (error: unknown) => {
+      if (signal.aborted && error !== signal.reason) {
+        logger.error("Abandoned request work failed", {
+          abortReason: signal.reason,
+          error,
+        });
+      }
+    },
+  );
+  const result = Promise.race([running, aborted]).finally(() => {
+    signal.removeEventListener("abort", onAbort);
+  });
+
+  return { result, settled };
+}
+
+// Settles with the signal's reason as soon as it aborts, even if the work ignores the signal and keeps running.
+export async function runWithSignal<TResult>(
+  logger: Logger,
+  signal: AbortSignal,
+  work: () => Promise<TResult>,
+): Promise<TResult> {
+  return startWithSignal(logger, signal, work).result;
+}
@@ -0,0 +1,138 @@
+import type { Route } from "../types.ts";
+
+type RouteNode = {
+  staticChildren: Map<string, RouteNode>;
+  paramChild?: RouteNode;
+  leaf?: {
+    route: Route;
+    paramNames: string[];
+  };
+};
+
+export type RouteMatch = {
+  route: Route;
+  params: Record<string, string>;
+};
+
+export type RouteMatcher = {
+  match: (method: string, pathname: string) => RouteMatch | undefined;
+  getMethods: (pathname: string) => string[];
+};
+
+const paramSegmentPattern = /^:([a-zA-Z_][a-zA-Z0-9_]*)$/;
+const staticSegmentPattern = /^[^:*?+(){}\\]*$/;
+
+function createNode(): RouteNode {
+  return { staticChildren: new Map() };
+}
+
+function insertRoute(root: RouteNode, route: Route): void {
+  let node = root;
+  const paramNames: string[] = [];
+
+  for (const segment of route.pathname.split("/").slice(1)) {
+    const paramMatch = paramSegmentPattern.exec(segment);
+    if (paramMatch) {
+      paramNames.push(paramMatch[1]);
+      node.paramChild ??= createNode();
+      node = node.paramChild;
+      continue;
+    }
+
+    if (!staticSegmentPattern.test(segment)) {
+      throw new Error(`Unsupported route pathname syntax: ${route.pathname}`);
+    }
+
+    let child = node.staticChildren.get(segment);
+    if (!child) {
+      child = createNode();
+      node.staticChildren.set(segment, child);
+    }
+    node = child;
+  }
+
+  if (node.leaf) {
+    throw new Error(
+      `Duplicate route ${route.method} ${route.pathname} conflicts with ${node.leaf.route.pathname}`,
+    );
+  }
+
+  node.leaf = { route, paramNames };
+}
+
+function findLeaf(
+  node: RouteNode,
+  segments: string[],
+  index: number,
+  values: string[],
+): RouteNode["leaf"] {
+  if (index === segments.length) {
+    return node.leaf;
+  }
+
+  const segment = segments[index];
+  const staticChild = node.staticChildren.get(segment);
+  if (staticChild) {
+    const leaf = findLeaf(staticChild, segments, index + 1, values);
+    if (leaf) {
+      return leaf;
+    }
+  }
+
+  if (node.paramChild && segment.length > 0) {
+    values.push(segment);
+    const leaf = findLeaf(node.paramChild, segments, index + 1, values);
+    if (leaf) {
+      return leaf;
+    }
+    values.pop();
+  }
+
+  return undefined;
+}
+
+export function compileRoutes(routes: Route[]): RouteMatcher {
+  const roots = new Map<string, RouteNode>();
+
+  for (const route of routes) {
+    let root = roots.get(route.method);
+    if (!root) {
+      root = createNode();
+      roots.set(route.method, root);
+    }
+    insertRoute(root, route);
+  }
+
+  const matchRoot = (
+    root: RouteNode,
+    pathname: string,
+  ): RouteMatch | undefined => {
+    const values: string[] = [];
+    const leaf = findLeaf(root, pathname.split("/").slice(1), 0, values);
+    if (!leaf) {
+      return undefined;
+    }
+
+    const params: Record<string, string> = {};
+    for (let index = 0; index < leaf.paramNames.length; index += 1) {
+      params[leaf.paramNames[index]] = values[index];
+    }
+    return { route: leaf.route, params };
+  };
+
+  return {
+    match: (method, pathname) => {
+      const root = roots.get(method);
+      return root ? matchRoot(root, pathname) : undefined;
+    },
+    getMethods: (pathname) => {
+      const methods: string[] = [];
+      for (const [method, root] of roots) {
+        if (matchRoot(root, pathname)) {
+          methods.push(method);
+        }
+      }
+      return methods;
+    },
+  };
+}
@@ -0,0 +1,194 @@
+import type {
+  Logger,
+  SpanAttributeValue,
+  SpanExporter,
+  SpanKind,
+  SpanRecord,
+} from "../types.ts";
+
+export type InMemorySpanExporter = SpanExporter & {
+  getFinishedSpans: () => SpanRecord[];
+  reset: () => void;
+};
+
+type OtlpSpanExporterOptions = {
+  url: string;
+  serviceName: string;
+  // Bounds each export, so a hung collector cannot stall flush or shutdown.
+  timeoutMs: number;
+  logger: Logger;
+};
+
+const exportDelayMs = 1000;
+const maxBatchSize = 512;
+
+const otlpSpanKinds: Record<SpanKind, number> = {
+  internal: 1,
+  server: 2,
+  client: 3,
+};
+
+const otlpStatusCodes: Record<SpanRecord["status"]["code"], number> = {
+  unset: 0,
+  ok: 1,
+  error: 2,
+};
+
+function toUnixNano(epochMs: number): string {
+  return (BigInt(Math.round(epochMs * 1000)) * 1000n).toString();
+}
+
+function toOtlpValue(value: SpanAttributeValue): Record<string, unknown> {
+  if (typeof value === "string") {
+    return { stringValue: value };
+  }
+  if (typeof value === "boolean") {
+    return { boolValue: value };
+  }
+  // OTLP/JSON encodes 64-bit integers as strings.
+  return Number.isInteger(value)
+    ? { intValue: String(value) }
+    : { doubleValue: value };
+}
+
+function toOtlpAttributes(attributes: Record<string, SpanAttributeValue>) {
+  return Object.entries(attributes).map(([key, value]) => ({
+    key,
+    value: toOtlpValue(value),
+  }));
+}
+
+export function toOtlpRequest(serviceName: string, spans: SpanRecord[]) {
+  return {
+    resourceSpans: [
+      {
+        resource: {
+          attributes: toOtlpAttributes({ "service.name": serviceName }),
+        },
+        scopeSpans: [
+          {
+            scope: { name: serviceName },
+            spans: spans.map((span) => ({
+              traceId: span.traceId,
+              spanId: span.spanId,
+              parentSpanId: span.parentSpanId,
+              name: span.name,
+              kind: otlpSpanKinds[span.kind],
+              startTimeUnixNano: toUnixNano(span.startTime),
+              endTimeUnixNano: toUnixNano(span.endTime),
+              attributes: toOtlpAttributes(span.attributes),
+              status: {
+                code: otlpStatusCodes[span.status.code],
+                message: span.status.message,
+              },
+            })),
+          },
+        ],
+      },
+    ],
+  };
+}
+
+export function createNoopSpanExporter(): SpanExporter {
+  return {
+    export: () => {},
+    flush: async () => {},
+    shutdown: async () => {},
+  };
+}
+
+export function createInMemorySpanExporter(): InMemorySpanExporter {
+  const spans: SpanRecord[] = [];
+  return {
+    export: (span) => {
+      spans.push(span);
+    },
+    flush: async () => {},
+    shutdown: async () => {},
+    getFinishedSpans: () => [...spans],
+    reset: () => {
+      spans.length = 0;
+    },
+  };
+}
+
+// Spans are buffered and posted in batches; a failed post is logged and dropped rather than retried.
+export function createOtlpSpanExporter(
+  options: OtlpSpanExporterOptions,
+): SpanExporter {
+  let buffer: SpanRecord[] = [];
+  let timer: NodeJS.Timeout | undefined;
+  const pending = new Set<Promise<void>>();
+  let shutdownController = new AbortController();
+
+  const send = (spans: SpanRecord[]) => {
+    const sending = fetch(options.url, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(toOtlpRequest(options.serviceName, spans)),
+      signal: AbortSignal.any([
+        AbortSignal.timeout(options.timeoutMs),
+        shutdownController.signal,
+      ]),
+    })
+      .then(async (response) => {
+        await response.body?.cancel();
+        if (!response.ok) {
+          options.logger.warn("Span export rejected", {
+            status: response.status,
+            spans: spans.length,
+          });
+        }
+      })
+      .catch((error: unknown) => {
+        options.logger.warn("Span export failed", {
+          error,
+          spans: spans.length,
+        });
+      })
+      .finally(() => {
+        pending.delete(sending);
+      });
+    pending.add(sending);
+  };
+
+  const drain = () => {
+    clearTimeout(timer);
+    timer = undefined;
+    if (buffer.length > 0) {
+      send(buffer);
+      buffer = [];
+    }
+  };
+
+  return {
+    export: (span) => {
+      buffer.push(span);
+      if (buffer.length >= maxBatchSize) {
+        drain();
+      } else if (!timer) {
+        timer = setTimeout(drain, exportDelayMs);
+        timer.unref();
+      }
+    },
+    flush: async () => {
+      drain();
+      await Promise.all(pending);
+    },
+    shutdown: async () => {
+      drain();
+      const controller = shutdownController;
+      // The exporter outlives a server restart, so later exports get a fresh signal.
+      shutdownController = new AbortController();
+      const deadline = setTimeout(
+        () => controller.abort(new Error("Span exporter shut down")),
+        options.timeoutMs,
+      );
+      try {
+        await Promise.all(pending);
+      } finally {
+        clearTimeout(deadline);
+      }
+    },
+  };
+}
@@ -0,0 +1,215 @@
+import { randomBytes } from "node:crypto";
+import type http from "node:http";
+import type {
+  Context,
+  Span,
+  SpanAttributeValue,
+  SpanKind,
+  SpanRecord,
+  TraceContext,
+} from "../types.ts";
+
+type SpanOptions = {
+  kind?: SpanKind;
+  // Defaults to the context's active span; null starts a new trace.
+  parent?: TraceContext | null;
+  attributes?: Record<string, SpanAttributeValue>;
+};
+
+const traceparentPattern =
+  /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+
+function now(): number {
+  return performance.timeOrigin + performance.now();
+}
+
+function randomHex(bytes: number): string {
+  return randomBytes(bytes).toString("hex");
+}
+
+// Follows the W3C Trace Context rules: unknown future versions may append fields, but version 00 may not.
+export function parseTraceparent(
+  traceparent: string | undefined,
+  tracestate: string | undefined,
+): TraceContext | undefined {
+  const match = traceparentPattern.exec(traceparent?.trim() ?? "");
+  if (!match) {
+    return undefined;
+  }
+
+  const [, version, traceId, spanId, flags, rest] = match;
+  if (
+    version === "ff" ||
+    (version === "00" && rest !== undefined) ||
+    /^0+$/.test(traceId) ||
+    /^0+$/.test(spanId)
+  ) {
+    return undefined;
+  }
+
+  const traceState = tracestate?.trim();
+  return {
+    traceId,
+    spanId,
+    sampled: (Number.parseInt(flags, 16) & 1) === 1,
+    traceState: traceState ? traceState : undefined,
+  };
+}
+
+export function extractTraceContext(
+  headers: http.IncomingHttpHeaders,
+): TraceContext | undefined {
+  const { traceparent, tracestate } = headers;
+  // More than one traceparent header is ambiguous, so it is treated as missing.
+  return parseTraceparent(
+    Array.isArray(traceparent) ? undefined : traceparent,
+    Array.isArray(tracestate) ? tracestate.join(",") : tracestate,
+  );
+}
+
+export function formatTraceparent(trace: TraceContext): string {
+  return `00-${trace.traceId}-${trace.spanId}-${trace.sampled ? "01" : "00"}`;
+}
+
+export function getTraceHeaders(trace: TraceContext): Record<string, string> {
+  const headers: Record<string, string> = {
+    traceparent: formatTraceparent(trace),
+  };
+  if (trace.traceState) {
+    headers.tracestate = trace.traceState;
+  }
+  return headers;
+}
+
+export function startSpan(
+  context: Context,
+  name: string,
+  options: SpanOptions = {},
+): Span {
+  const parent =
+    options.parent === undefined
+      ? context.trace
+      : (options.parent ?? undefined);
+  const spanContext: TraceContext = {
+    traceId: parent?.traceId ?? randomHex(16),
+    spanId: randomHex(8),
+    sampled: parent?.sampled ?? true,
+    traceState: parent?.traceState,
+  };
+  const record: SpanRecord = {
+    traceId: spanContext.traceId,
+    spanId: spanContext.spanId,
+    parentSpanId: parent?.spanId,
+    name,
+    kind: options.kind ?? "internal",
+    startTime: now(),
+    endTime: 0,
+    attributes: { ...options.attributes },
+    status: { code: "unset" },
+  };
+  let ended = false;
+
+  return {
+    context: spanContext,
+    setAttribute: (attribute, value) => {
+      record.attributes[attribute] = value;
+    },
+    updateName: (spanName) => {
+      record.name = spanName;
+    },
+    setStatus: (code, message) => {
+      record.status = { code, message };
+    },
+    recordError: (error) => {
+      record.status = {
+        code: "error",
+        message: error instanceof Error ? error.message : String(error),
+      };
+      if (error instanceof Error) {
+        record.attributes["exception.type"] = error.constructor.name;
+        record.attributes["exception.message"] = error.message;
+      }
+    },
+    end: () => {
+      if (ended) {
+        return;
+      }
+      ended = true;
+      record.endTime = now();
+      if (spanContext.sampled) {
+        context.spanExporter.export(record);
+      }
+    },
+  };
+}
+
+// Returns a context whose new spans, including those started inside transactions, are children of trace.
+export function withTraceContext(
+  context: Context,
+  trace: TraceContext,
+): Context {
+  return {
+    ...context,
+    trace,
+    db: {
+      todos: context.db.todos,
+      transaction: (work) =>
+        context.db.transaction((transaction) =>
+          work(withTraceContext(transaction, trace)),
+        ),
+    },
+  };
+}
+
+export async function withSpan<TResult>(
+  context: Context,
+  name: string,
+  work: (context: Context) => Promise<TResult>,
+  options: SpanOptions = {},
+): Promise<TResult> {
+  const span = startSpan(context, name, options);
+  try {
+    return await work(withTraceContext(context, span.context));
+  } catch (error) {
+    span.recordError(error);
+    throw error;
+  } finally {
+    span.end();
+  }
+}
+
+// Outbound calls get a client span and carry it as the parent in traceparent.
+export async function fetchWithTrace(
+  context: Context,
+  input: string | URL,
+  init: RequestInit = {},
+): Promise<Response> {
+  const method = init.method ?? "GET";
+  const url = new URL(input);
+  const span = startSpan(context, method, {
+    kind: "client",
+    attributes: {
+      "http.request.method": method,
+      "url.full": url.href,
+    },
+  });
+
+  const headers = new Headers(init.headers);
+  for (const [name, value] of Object.entries(getTraceHeaders(span.context))) {
+    headers.set(name, value);
+  }
+
+  try {
+    const response = await fetch(url, { ...init, headers });
+    span.setAttribute("http.response.status_code", response.status);
+    if (response.status >= 500) {
+      span.setStatus("error", `HTTP ${response.status}`);
+    }
+    return response;
+  } catch (error) {
+    span.recordError(error);
+    throw error;
+  } finally {
+    span.end();
+  }
+}
@@ -0,0 +1,235 @@
+import { z } from "zod";
+
+export type JsonSchema = Record<string, unknown>;
+
+export type JsonSchemaOptions = {
+  componentNames: Map<z.ZodTypeAny, string>;
+  usedComponents: Set<string>;
+};
+
+function convertString(schema: z.ZodString): JsonSchema {
+  const jsonSchema: JsonSchema = { type: "string" };
+
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case "min":
+        jsonSchema.minLength = check.value;
+        break;
+      case "max":
+        jsonSchema.maxLength = check.value;
+        break;
+      case "length":
+        jsonSchema.minLength = check.value;
+        jsonSchema.maxLength = check.value;
+        break;
+      case "uuid":
+        jsonSchema.format = "uuid";
+        break;
+      case "email":
+        jsonSchema.format = "email";
+        break;
+      case "url":
+        jsonSchema.format = "uri";
+        break;
+      case "datetime":
+        jsonSchema.format = "date-time";
+        break;
+      case "date":
+        jsonSchema.format = "date";
+        break;
+      case "regex":
+        jsonSchema.pattern = check.regex.source;
+        break;
+    }
+  }
+
+  return jsonSchema;
+}
+
+function convertNumber(schema: z.ZodNumber): JsonSchema {
+  const jsonSchema: JsonSchema = { type: "number" };
+
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case "int":
+        jsonSchema.type = "integer";
+        break;
+      case "min":
+        jsonSchema[check.inclusive ? "minimum" : "exclusiveMinimum"] =
+          check.value;
+        break;
+      case "max":
+        jsonSchema[check.inclusive ? "maximum" : "exclusiveMaximum"] =
+          check.value;
+        break;
+      case "multipleOf":
+        jsonSchema.multipleOf = check.value;
+        break;
+    }
+  }
+
+  return jsonSchema;
+}
+
+function convertObject(
+  schema: z.AnyZodObject,
+  options: JsonSchemaOptions,
+): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  for (const [key, value] of Object.entries(schema.shape)) {
+    const property = value as z.ZodTypeAny;
+    properties[key] = zodToJsonSchema(property, options);
+    if (!property.isOptional()) {
+      required.push(key);
+    }
+  }
+
+  const jsonSchema: JsonSchema = { type: "object", properties };
+  if (required.length > 0) {
+    jsonSchema.required = required;
+  }
+  if (schema._def.unknownKeys === "strict") {
+    jsonSchema.additionalProperties = false;
+  }
+  return jsonSchema;
+}
+
+function convertDefinition(
+  schema: z.ZodTypeAny,
+  options: JsonSchemaOptions,
+): JsonSchema {
+  if (schema instanceof z.ZodString) {
+    return convertString(schema);
+  }
+  if (schema instanceof z.ZodNumber) {
+    return convertNumber(schema);
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return { type: "boolean" };
+  }
+  if (schema instanceof z.ZodDate) {
+    return { type: "string", format: "date-time" };
+  }
+  if (schema instanceof z.ZodNull) {
+    return { type: "null" };
+  }
+  if (schema instanceof z.ZodAny || schema instanceof z.ZodUnknown) {
+    return {};
+  }
+  if (schema instanceof z.ZodLiteral) {
+    return { const: schema.value };
+  }
+  if (schema instanceof z.ZodEnum) {
+    return { type: "string", enum: schema.options };
+  }
+  if (schema instanceof z.ZodObject) {
+    return convertObject(schema, options);
+  }
+  if (schema instanceof z.ZodArray) {
+    const jsonSchema: JsonSchema = {
+      type: "array",
+      items: zodToJsonSchema(schema.element, options),
+    };
+    if (schema._def.minLength) {
+      jsonSchema.minItems = schema._def.minLength.value;
+    }
+    if (schema._def.maxLength) {
+      jsonSchema.maxItems = schema._def.maxLength.value;
+    }
+    return jsonSchema;
+  }
+  if (schema instanceof z.ZodRecord) {
+    return {
+      type: "object",
+      additionalProperties: zodToJsonSchema(schema.valueSchema, options),
+    };
+  }
+  if (schema instanceof z.ZodUnion) {
+    return {
+      anyOf: (schema.options as z.ZodTypeAny[]).map((option) =>
+        zodToJsonSchema(option, options),
+      ),
+    };
+  }
+  if (schema instanceof z.ZodDiscriminatedUnion) {
+    return {
+      oneOf: (schema.options as z.ZodTypeAny[]).map((option) =>
+        zodToJsonSchema(option, options),
+      ),
+    };
+  }
+  if (schema instanceof z.ZodIntersection) {
+    return {
+      allOf: [
+        zodToJsonSchema(schema._def.left, options),
+        zodToJsonSchema(schema._def.right, options),
+      ],
+    };
+  }
+  if (schema instanceof z.ZodNullable) {
+    return {
+      anyOf: [zodToJsonSchema(schema.unwrap(), options), { type: "null" }],
+    };
+  }
+  if (schema instanceof z.ZodOptional) {
+    return zodToJsonSchema(schema.unwrap(), options);
+  }
+  if (schema instanceof z.ZodDefault) {
+    return {
+      ...zodToJsonSchema(schema.removeDefault(), options),
+      default: schema._def.defaultValue(),
+    };
+  }
+  if (schema instanceof z.ZodEffects) {
+    return zodToJsonSchema(schema.innerType(), options);
+  }
+  if (schema instanceof z.ZodPipeline) {
+    return zodToJsonSchema(schema._def.in, options);
+  }
+
+  throw new Error(
+    `Cannot convert ${schema._def.typeName} to JSON Schema; describe it in openapi instead`,
+  );
+}
+
+export function zodToComponentSchema(
+  schema: z.ZodTypeAny,
+  options: JsonSchemaOptions,
+): JsonSchema {
+  const jsonSchema = convertDefinition(schema, options);
+  if (schema.description) {
+    jsonSchema.description = schema.description;
+  }
+  return jsonSchema;
+}
+
+export function zodToJsonSchema(
+  schema: z.ZodTypeAny,
+  options: JsonSchemaOptions,
+): JsonSchema {
+  const componentName = options.componentNames.get(schema);
+  if (componentName) {
+    options.usedComponents.add(componentName);
+    return { $ref: `#/components/schemas/${componentName}` };
+  }
+
+  return zodToComponentSchema(schema, options);
+}
+
+export function toObjectSchema(schema: z.ZodTypeAny): z.AnyZodObject {
+  if (schema instanceof z.ZodObject) {
+    return schema;
+  }
+  if (schema instanceof z.ZodEffects) {
+    return toObjectSchema(schema.innerType());
+  }
+  if (schema instanceof z.ZodOptional) {
+    return toObjectSchema(schema.unwrap());
+  }
+
+  throw new Error(
+    `Expected an object schema for parameters, got ${schema._def.typeName}`,
+  );
+}
@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { PatchFailedError } from "../src/errors.ts";
+import { applyJsonPatch, applyMergePatch } from "../src/utils/applyPatch.ts";
+
+test("merge patch follows the RFC 7396 examples", () => {
+  assert.deepEqual(
+    applyMergePatch(
+      { title: "Goodbye!", author: { givenName: "John", familyName: "Doe" } },
+      { title: "Hello!", author: { familyName: null }, phoneNumber: "+01" },
+    ),
+    { title: "Hello!", author: { givenName: "John" }, phoneNumber: "+01" },
+  );
+  assert.deepEqual(applyMergePatch({ a: "b" }, { a: null }), {});
+  assert.deepEqual(applyMergePatch({ a: [{ b: "c" }] }, { a: [1] }), {
+    a: [1],
+  });
+  assert.deepEqual(applyMergePatch({ e: null }, { a: 1 }), { e: null, a: 1 });
+});
+
+test("JSON patch applies operations in order without touching the target", () => {
+  const target = { foo: ["bar", "baz"], "a/b": { "~c": 1 } };
+
+  assert.deepEqual(
+    applyJsonPatch(target, [
+      { op: "add", path: "/foo/1", value: "qux" },
+      { op: "remove", path: "/foo/0" },
+      { op: "replace", path: "/a~1b/~0c", value: 2 },
+      { op: "copy", from: "/foo", path: "/copied" },
+      { op: "move", from: "/copied", path: "/moved" },
+      { op: "add", path: "/foo/-", value: "end" },
+      { op: "test", path: "/moved", value: ["qux", "baz"] },
+    ]),
+    {
+      foo: ["qux", "baz", "end"],
+      "a/b": { "~c": 2 },
+      moved: ["qux", "baz"],
+    },
+  );
+  assert.deepEqual(target, { foo: ["bar", "baz"], "a/b": { "~c": 1 } });
+});
+
+test("JSON patch rejects operations that cannot apply", () => {
+  const target = { foo: ["bar"] };
+  const failures = [
+    [{ op: "remove", path: "/missing" }],
+    [{ op: "replace", path: "/foo/1", value: "x" }],
+    [{ op: "add", path: "/missing/child", value: 1 }],
+    [{ op: "test", path: "/foo/0", value: "baz" }],
+    [{ op: "move", from: "/foo", path: "/foo/0" }],
+    [{ op: "remove", path: "foo" }],
+  ] as const;
+
+  for (const patch of failures) {
+    assert.throws(
+      () => applyJsonPatch(target, [...patch]),
+      PatchFailedError,
+      JSON.stringify(patch),
+    );
+  }
+});
@@ -0,0 +1,137 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { signAccessToken } from "../src/utils/accessTokens.ts";
+import { createTestServer, testAuthTokenSecret } from "./helpers.ts";
+
+const inOneHour = () => new Date(Date.now() + 60 * 60 * 1000);
+
+test("protected routes require credentials while public routes do not", async () => {
+  const { app, config } = await createTestServer();
+
+  try {
+    const healthRes = await fetch(new URL("/health", config.publicBaseUrl));
+    assert.equal(healthRes.status, 200);
+    await healthRes.body?.cancel();
+
+    const missingRes = await fetch(new URL("/todos", config.publicBaseUrl));
+    assert.equal(missingRes.status, 401);
+    assert.equal(
+      missingRes.headers.get("www-authenticate"),
+      'Bearer realm="todo-api"',
+    );
+    assert.equal(
+      ((await missingRes.json()) as { code: string }).code,
+      "UNAUTHORIZED",
+    );
+
+    const wrongKeyRes = await fetch(new URL("/todos", config.publicBaseUrl), {
+      headers: { "x-api-key": "not-a-configured-key" },
+    });
+    assert.equal(wrongKeyRes.status, 401);
+    await wrongKeyRes.body?.cancel();
+  } finally {
+    await app.stop();
+  }
+});
+
+test("repeated failed authentication is rate limited by address", async () => {
+  const { app, config } = await createTestServer({
+    rateLimitCapacity: 3,
+    rateLimitRefillPerSecond: 0.5,
+  });
+
+  try {
+    const statuses: number[] = [];
+    for (let index = 0; index < 4; index += 1) {
+      const guessRes = await fetch(new URL("/todos", config.publicBaseUrl), {
+        headers: { "x-api-key": `guess-${index}` },
+      });
+      statuses.push(guessRes.status);
+      await guessRes.body?.cancel();
+    }
+    assert.deepEqual(statuses, [401, 401, 401, 429]);
+
+    // Free routes still charge failed attempts.
+    const metricsRes = await fetch(new URL("/metrics", config.publicBaseUrl), {
+      headers: { authorization: "Bearer not-a-token" },
+    });
+    assert.equal(metricsRes.status, 429);
+    await metricsRes.body?.cancel();
+  } finally {
+    await app.stop();
+  }
+});
+
+test("bearer tokens authenticate and are checked for signature, expiry and scope", async () => {
+  const { app, config } = await createTestServer();
+  const todosUrl = new URL("/todos", config.publicBaseUrl);
+  const createTodo = (token: string) =>
+    fetch(todosUrl, {
+      method: "POST",
+      headers: {
+        authorization: `Bearer ${token}`,
+        "content-type": "application/json",
+      },
+      body: JSON.stringify({ title: "Authenticated todo" }),
+    });
+
+  try {
+    const writer = signAccessToken(testAuthTokenSecret, {
+      subject: "writer",
+      scopes: ["todos:read", "todos:write"],
+      expiresAt: inOneHour(),
+    });
+    const createdRes = await createTodo(writer);
+    assert.equal(createdRes.status, 201);
+    await createdRes.body?.cancel();
+
+    for (const authorization of [`bearer ${writer}`, `Bearer \t ${writer}`]) {
+      const spacedRes = await fetch(todosUrl, { headers: { authorization } });
+      assert.equal(spacedRes.status, 200, authorization);
+      await spacedRes.body?.cancel();
+    }
+    const trailingRes = await fetch(todosUrl, {
+      headers: { authorization: `Bearer ${writer} extra` },
+    });
+    assert.equal(trailingRes.status, 401);
+    await trailingRes.body?.cancel();
+
+    const reader = signAccessToken(testAuthTokenSecret, {
+      subject: "reader",
+      scopes: ["todos:read"],
+      expiresAt: inOneHour(),
+    });
+    const listRes = await fetch(todosUrl, {
+      headers: { authorization: `Bearer ${reader}` },
+    });
+    assert.equal(listRes.status, 200);
+    await listRes.body?.cancel();
+
+    const forbiddenRes = await createTodo(reader);
+    assert.equal(forbiddenRes.status, 403);
+    assert.equal(
+      ((await forbiddenRes.json()) as { code: string }).code,
+      "FORBIDDEN",
+    );
+
+    const expired = signAccessToken(testAuthTokenSecret, {
+      subject: "writer",
+      scopes: ["todos:write"],
+      expiresAt: new Date(Date.now() - 1000),
+    });
+    const expiredRes = await createTodo(expired);
+    assert.equal(expiredRes.status, 401);
+    await expiredRes.body?.cancel();
+
+    const forged = signAccessToken("some-other-secret-of-32-characters", {
+      subject: "writer",
+      scopes: ["todos:write"],
+      expiresAt: inOneHour(),
+    });
+    const forgedRes = await createTodo(forged);
+    assert.equal(forgedRes.status, 401);
+    await forgedRes.body?.cancel();
+  } finally {
+    await app.stop();
+  }
+});
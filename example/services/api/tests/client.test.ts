@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { ApiError, createClient } from "@code-style/todo-client";
+import { createTestServer, testApiKey } from "./helpers.ts";
+
+test("generated client drives the todo API", async () => {
+  const { app, config } = await createTestServer();
+  const client = createClient({
+    baseUrl: config.publicBaseUrl,
+    headers: { "x-api-key": testApiKey },
+  });
+
+  try {
+    const created = await client.createTodo({
+      body: { title: "Generate the client" },
+    });
+    assert.equal(created.completed, false);
+
+    const list = await client.listTodos();
+    assert.deepEqual(
+      list.todos.map((todo) => todo.id),
+      [created.id],
+    );
+
+    const updated = await client.updateTodo({
+      params: { todoId: created.id },
+      body: { completed: true },
+    });
+    assert.equal(updated.completed, true);
+
+    const fetched = await client.getTodo({ params: { todoId: created.id } });
+    assert.deepEqual(fetched, updated);
+
+    const jsonPatched = await client.patchTodo({
+      params: { todoId: created.id },
+      contentType: "application/json-patch+json",
+      body: [
+        { op: "replace", path: "/title", value: "Patched with JSON Patch" },
+      ],
+    });
+    assert.equal(jsonPatched.title, "Patched with JSON Patch");
+
+    const mergePatched = await client.patchTodo({
+      params: { todoId: created.id },
+      contentType: "application/merge-patch+json",
+      body: { completed: false },
+    });
+    assert.equal(mergePatched.completed, false);
+
+    await client.deleteTodo({ params: { todoId: created.id } });
+    assert.deepEqual((await client.listTodos()).todos, []);
+  } finally {
+    await app.stop();
+  }
+});
+
+test("generated client maps error bodies onto ApiError", async () => {
+  const { app, config } = await createTestServer();
+  const client = createClient({
+    baseUrl: config.publicBaseUrl,
+    headers: { "x-api-key": testApiKey },
+  });
+
+  try {
+    await client.createTodo({ body: { title: "Duplicate" } });
+
+    await assert.rejects(
+      client.createTodo({ body: { title: "duplicate" } }),
+      (error) => {
+        assert.ok(error instanceof ApiError);
+        assert.equal(error.status, 409);
+        assert.equal(error.code, "CONFLICT");
+        assert.equal(error.message, "Todo title must be unique");
+        return true;
+      },
+    );
+
+    await assert.rejects(
+      client.getTodo({
+        params: { todoId: "3f1c8f1e-6f7e-4a7c-9d7e-2d2c8e7f0a11" },
+      }),
+      (error) => {
+        assert.ok(error instanceof ApiError);
+        assert.equal(error.status, 404);
+        assert.equal(error.code, "NOT_FOUND");
+        return true;
+      },
+    );
+  } finally {
+    await app.stop();
+  }
+});
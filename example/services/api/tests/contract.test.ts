@@ -0,0 +1,39 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { routes } from "../src/routes.ts";
+import { checkContract } from "./contract.ts";
+import { createTestServer, fetchApi, testApiKey } from "./helpers.ts";
+
+for (const errorFormat of ["json", "problem"] as const) {
+  test(`every route returns only declared statuses and schema-valid bodies (${errorFormat} errors)`, async () => {
+    const { app, config } = await createTestServer({ errorFormat });
+
+    try {
+      const violations = await checkContract(
+        config,
+        routes,
+        {
+          todoId: async () => {
+            const response = await fetchApi(
+              new URL("/todos", config.publicBaseUrl),
+              {
+                method: "POST",
+                headers: { "content-type": "application/json" },
+                body: JSON.stringify({
+                  title: `Contract ${crypto.randomUUID()}`,
+                }),
+              },
+            );
+            const todo = (await response.json()) as { id: string };
+            return todo.id;
+          },
+        },
+        { "x-api-key": testApiKey },
+      );
+
+      assert.deepEqual(violations, []);
+    } finally {
+      await app.stop();
+    }
+  });
+}
@@ -0,0 +1,305 @@
+import { randomUUID } from "node:crypto";
+import { z } from "zod";
+import { ErrorResponseSchema, ProblemSchema } from "../src/schemas/errors.ts";
+import type { Config, ControllerModule, Route } from "../src/types.ts";
+import { getDeclaredResponses } from "../src/utils/openapi.ts";
+
+export type ContractFixtures = Record<string, () => Promise<string>>;
+
+type ContractCase = {
+  name: string;
+  params: Record<string, string>;
+  query: Record<string, string>;
+  body?: string;
+  contentType?: string;
+  accept?: string;
+  authenticated: boolean;
+};
+
+const invalidCandidates: unknown[] = [
+  "not-a-valid-value",
+  "",
+  -1,
+  {},
+  null,
+  [],
+];
+
+function createSample(schema: z.ZodTypeAny): unknown {
+  if (schema instanceof z.ZodString) {
+    const checks = schema._def.checks;
+    if (checks.some((check) => check.kind === "uuid")) {
+      return randomUUID();
+    }
+    if (checks.some((check) => check.kind === "datetime")) {
+      return new Date().toISOString();
+    }
+    const minLength = schema.minLength ?? 0;
+    const maxLength = schema.maxLength ?? Number.POSITIVE_INFINITY;
+    return `sample-${randomUUID()}`.padEnd(minLength, "x").slice(0, maxLength);
+  }
+  if (schema instanceof z.ZodNumber) {
+    return schema.minValue ?? 1;
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return true;
+  }
+  if (schema instanceof z.ZodLiteral) {
+    return schema.value;
+  }
+  if (schema instanceof z.ZodEnum) {
+    return schema.options[0];
+  }
+  if (schema instanceof z.ZodArray) {
+    return [];
+  }
+  if (schema instanceof z.ZodRecord) {
+    return {};
+  }
+  if (schema instanceof z.ZodObject) {
+    return Object.fromEntries(
+      Object.entries(schema.shape).map(([key, value]) => [
+        key,
+        createSample(value as z.ZodTypeAny),
+      ]),
+    );
+  }
+  if (schema instanceof z.ZodUnion) {
+    return createSample(schema.options[0]);
+  }
+  if (schema instanceof z.ZodEffects) {
+    return createSample(schema.innerType());
+  }
+  if (schema instanceof z.ZodPipeline) {
+    return createSample(schema._def.in);
+  }
+  if (
+    schema instanceof z.ZodOptional ||
+    schema instanceof z.ZodNullable ||
+    schema instanceof z.ZodDefault
+  ) {
+    return createSample(schema._def.innerType);
+  }
+
+  throw new Error(`No contract sample for ${schema._def.typeName}`);
+}
+
+function findInvalidValue(schema: z.ZodTypeAny): unknown {
+  return invalidCandidates.find((value) => !schema.safeParse(value).success);
+}
+
+function toObjectShape(schema: z.ZodTypeAny): Record<string, z.ZodTypeAny> {
+  if (schema instanceof z.ZodObject) {
+    return schema.shape;
+  }
+  if (schema instanceof z.ZodEffects) {
+    return toObjectShape(schema.innerType());
+  }
+  if (schema instanceof z.ZodOptional) {
+    return toObjectShape(schema.unwrap());
+  }
+  throw new Error(`Expected an object schema, got ${schema._def.typeName}`);
+}
+
+async function createValidParams(
+  schema: z.ZodTypeAny | undefined,
+  fixtures: ContractFixtures,
+): Promise<Record<string, string>> {
+  if (!schema) {
+    return {};
+  }
+
+  const params: Record<string, string> = {};
+  for (const [name, property] of Object.entries(toObjectShape(schema))) {
+    const fixture = fixtures[name];
+    params[name] = fixture ? await fixture() : String(createSample(property));
+  }
+  return params;
+}
+
+function createValidQuery(
+  schema: z.ZodTypeAny | undefined,
+): Record<string, string> {
+  if (!schema) {
+    return {};
+  }
+
+  return Object.fromEntries(
+    Object.entries(toObjectShape(schema))
+      .filter(([, property]) => !property.isOptional())
+      .map(([name, property]) => [name, String(createSample(property))]),
+  );
+}
+
+async function createCases(
+  controller: ControllerModule,
+  fixtures: ContractFixtures,
+): Promise<ContractCase[]> {
+  const schema = controller.schema ?? {};
+  const validCase: ContractCase = {
+    name: "valid request",
+    params: await createValidParams(schema.params, fixtures),
+    query: createValidQuery(schema.query),
+    body: schema.body ? JSON.stringify(createSample(schema.body)) : undefined,
+    contentType: controller.bodyTypes?.[0],
+    authenticated: true,
+  };
+  const cases = [validCase];
+
+  for (const [location, locationSchema] of [
+    ["params", schema.params],
+    ["query", schema.query],
+  ] as const) {
+    if (!locationSchema) {
+      continue;
+    }
+
+    for (const [name, property] of Object.entries(
+      toObjectShape(locationSchema),
+    )) {
+      const invalidValue = findInvalidValue(property);
+      if (invalidValue === undefined) {
+        continue;
+      }
+      cases.push({
+        ...validCase,
+        name: `invalid ${location}.${name}`,
+        params: await createValidParams(schema.params, fixtures),
+        [location]: {
+          ...validCase[location],
+          [name]: String(invalidValue),
+        },
+      });
+    }
+  }
+
+  if (schema.body) {
+    const invalidBody = findInvalidValue(schema.body);
+    if (invalidBody !== undefined) {
+      cases.push({
+        ...validCase,
+        name: "invalid body",
+        params: await createValidParams(schema.params, fixtures),
+        body: JSON.stringify(invalidBody),
+      });
+    }
+    cases.push({
+      ...validCase,
+      name: "malformed JSON body",
+      params: await createValidParams(schema.params, fixtures),
+      body: "{",
+    });
+    cases.push({
+      ...validCase,
+      name: "unsupported content-type",
+      params: await createValidParams(schema.params, fixtures),
+      body: "plain text",
+      contentType: "text/plain",
+    });
+  }
+
+  if (controller.formats) {
+    cases.push({
+      ...validCase,
+      name: "unacceptable Accept header",
+      params: await createValidParams(schema.params, fixtures),
+      accept: "application/xml",
+    });
+  }
+
+  if (controller.auth !== "public") {
+    cases.push({
+      ...validCase,
+      name: "missing credentials",
+      params: await createValidParams(schema.params, fixtures),
+      authenticated: false,
+    });
+  }
+
+  return cases;
+}
+
+async function checkResponse(
+  route: Route,
+  controller: ControllerModule,
+  contractCase: ContractCase,
+  response: Response,
+): Promise<string | undefined> {
+  const label = `${route.method} ${route.pathname} (${contractCase.name})`;
+  const status = String(response.status);
+  if (!(status in getDeclaredResponses(controller))) {
+    await response.body?.cancel();
+    return `${label} returned undeclared status ${status}`;
+  }
+
+  const errorSchema = response.headers
+    .get("content-type")
+    ?.startsWith("application/problem+json")
+    ? ProblemSchema
+    : ErrorResponseSchema;
+  const responseSchema =
+    response.status >= 400 ? errorSchema : controller.schema?.response;
+  if (!responseSchema || response.status === 204) {
+    await response.body?.cancel();
+    return undefined;
+  }
+
+  const result = responseSchema.safeParse(await response.json());
+  if (!result.success) {
+    return `${label} returned a ${status} body that does not match its schema: ${result.error.message}`;
+  }
+  return undefined;
+}
+
+export async function checkContract(
+  config: Config,
+  routes: Route[],
+  fixtures: ContractFixtures,
+  credentials: Record<string, string>,
+): Promise<string[]> {
+  const violations: string[] = [];
+
+  for (const route of routes) {
+    const controller = (await route.controller).default;
+
+    for (const contractCase of await createCases(controller, fixtures)) {
+      const pathname = route.pathname.replace(
+        /:([a-zA-Z0-9_]+)/g,
+        (_, name: string) => encodeURIComponent(contractCase.params[name]),
+      );
+      const url = new URL(pathname, config.publicBaseUrl);
+      for (const [name, value] of Object.entries(contractCase.query)) {
+        url.searchParams.set(name, value);
+      }
+
+      const headers: Record<string, string> = contractCase.authenticated
+        ? { ...credentials }
+        : {};
+      if (contractCase.body !== undefined) {
+        headers["content-type"] =
+          contractCase.contentType ?? "application/json";
+      }
+      if (contractCase.accept) {
+        headers.accept = contractCase.accept;
+      }
+
+      const response = await fetch(url, {
+        method: route.method,
+        headers,
+        body: contractCase.body,
+      });
+
+      const violation = await checkResponse(
+        route,
+        controller,
+        contractCase,
+        response,
+      );
+      if (violation) {
+        violations.push(violation);
+      }
+    }
+  }
+
+  return violations;
+}
@@ -0,0 +1,313 @@
+import assert from "node:assert/strict";
+import { once } from "node:events";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import http from "node:http";
+import os from "node:os";
+import path from "node:path";
+import { test } from "node:test";
+import { createContext } from "../src/createContext.ts";
+import {
+  ClientClosedRequestError,
+  DeadlineExceededError,
+  ServiceUnavailableError,
+} from "../src/errors.ts";
+import {
+  createTodo,
+  deleteTodo,
+  getTodoById,
+  patchTodo,
+  updateTodo,
+} from "../src/models/todos.ts";
+import type { Config, Route } from "../src/types.ts";
+import { createRouter } from "../src/utils/createRouter.ts";
+import { sendJson } from "../src/utils/http.ts";
+import {
+  createTestConfig,
+  createTestServer,
+  fetchApi,
+  testApiKey,
+} from "./helpers.ts";
+
+function createSlowRoute(
+  onSignal: (signal: AbortSignal) => void,
+  ignoreSignal = false,
+): Route {
+  return {
+    method: "GET",
+    pathname: "/slow",
+    pattern: new URLPattern({ pathname: "/slow" }),
+    controller: Promise.resolve({
+      default: {
+        auth: "public",
+        rateLimitCost: 0,
+        openapi: { operationId: "slow", summary: "slow", responses: {} },
+        handler: async ({ signal }) => {
+          onSignal(signal);
+          if (!ignoreSignal) {
+            await once(signal, "abort");
+          } else {
+            await new Promise((resolve) => setTimeout(resolve, 200));
+          }
+        },
+      },
+    }),
+  };
+}
+
+async function startRouter(
+  config: Config,
+  route: Route,
+): Promise<{ server: http.Server; close: () => Promise<void> }> {
+  const context = createContext(config);
+  const handleRequest = createRouter(context, [route]);
+  const server = http.createServer((request, response) => {
+    handleRequest(request, response);
+  });
+  server.listen(config.todoApiPort, "127.0.0.1");
+  await once(server, "listening");
+  return {
+    server,
+    close: async () => {
+      server.closeAllConnections();
+      server.close();
+      await context.destroy();
+    },
+  };
+}
+
+test("requests past their deadline get 504 even when the handler ignores the signal", async () => {
+  const config = await createTestConfig({ requestTimeoutMs: 50 });
+  let handlerSignal: AbortSignal | undefined;
+  const { close } = await startRouter(
+    config,
+    createSlowRoute((signal) => {
+      handlerSignal = signal;
+    }, true),
+  );
+
+  try {
+    const response = await fetch(new URL("/slow", config.publicBaseUrl));
+    assert.equal(response.status, 504);
+    assert.equal(
+      ((await response.json()) as { code: string }).code,
+      "DEADLINE_EXCEEDED",
+    );
+    assert.equal(handlerSignal?.aborted, true);
+  } finally {
+    await close();
+  }
+});
+
+test("work that fails after its request was abandoned is logged with the request id", async () => {
+  const directory = await mkdtemp(path.join(os.tmpdir(), "todo-api-logs-"));
+  const logDestination = path.join(directory, "api.log");
+  const config = await createTestConfig({
+    requestTimeoutMs: 50,
+    logLevel: "error",
+    logDestination,
+  });
+  let failed: () => void = () => {};
+  const failedLater = new Promise<void>((resolve) => {
+    failed = resolve;
+  });
+  const { close } = await startRouter(config, {
+    ...createSlowRoute(() => {}),
+    controller: Promise.resolve({
+      default: {
+        auth: "public",
+        rateLimitCost: 0,
+        openapi: { operationId: "slow", summary: "slow", responses: {} },
+        handler: async () => {
+          await new Promise((resolve) => setTimeout(resolve, 100));
+          setImmediate(failed);
+          throw new Error("Late failure");
+        },
+      },
+    }),
+  });
+
+  try {
+    const response = await fetch(new URL("/slow", config.publicBaseUrl), {
+      headers: { "x-request-id": "late-failure" },
+    });
+    assert.equal(response.status, 504);
+    await response.body?.cancel();
+    await failedLater;
+  } finally {
+    await close();
+  }
+
+  try {
+    const lines = (await readFile(logDestination, "utf8"))
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line) as Record<string, unknown>);
+    const abandoned = lines.find(
+      (line) => line.msg === "Abandoned request work failed",
+    );
+    assert.equal(abandoned?.requestId, "late-failure");
+    assert.equal(
+      (abandoned?.error as { message: string }).message,
+      "Late failure",
+    );
+    assert.equal(
+      (abandoned?.abortReason as { message: string }).message,
+      "Request did not finish within 50ms",
+    );
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+});
+
+test("model writes do not commit once their request has been abandoned", async () => {
+  const context = createContext(await createTestConfig());
+  const deadline = new DeadlineExceededError("Request did not finish");
+  const controller = new AbortController();
+  controller.abort(deadline);
+  const { signal } = controller;
+
+  try {
+    const todo = await createTodo(context, "owner", { title: "Original" });
+
+    await assert.rejects(
+      createTodo(context, "owner", { title: "Late" }, { signal }),
+      deadline,
+    );
+    await assert.rejects(
+      updateTodo(context, "owner", todo.id, { title: "Late" }, { signal }),
+      deadline,
+    );
+    await assert.rejects(
+      patchTodo(
+        context,
+        "owner",
+        todo.id,
+        (current) => ({ ...current, completed: true }),
+        { signal },
+      ),
+      deadline,
+    );
+    await assert.rejects(
+      deleteTodo(context, "owner", todo.id, { signal }),
+      deadline,
+    );
+
+    assert.deepEqual(await getTodoById(context, "owner", todo.id), todo);
+    assert.equal(context.db.todos.getAll("owner").length, 1);
+  } finally {
+    await context.destroy();
+  }
+});
+
+test("an Idempotency-Key stays reserved until work abandoned at its deadline settles", async () => {
+  const config = await createTestConfig({ requestTimeoutMs: 50 });
+  let calls = 0;
+  let finished: () => void = () => {};
+  const { close } = await startRouter(config, {
+    method: "POST",
+    pathname: "/slow",
+    pattern: new URLPattern({ pathname: "/slow" }),
+    controller: Promise.resolve({
+      default: {
+        auth: "public",
+        rateLimitCost: 0,
+        idempotent: true,
+        openapi: { operationId: "slow", summary: "slow", responses: {} },
+        handler: async ({ context, response }) => {
+          calls += 1;
+          if (calls === 1) {
+            await new Promise((resolve) => setTimeout(resolve, 200));
+            setImmediate(finished);
+          }
+          sendJson(context, response, 201, { calls });
+        },
+      },
+    }),
+  });
+  const send = () =>
+    fetch(new URL("/slow", config.publicBaseUrl), {
+      method: "POST",
+      headers: { "idempotency-key": "slow-create" },
+    });
+
+  try {
+    const finishedLater = new Promise<void>((resolve) => {
+      finished = resolve;
+    });
+    const timedOut = await send();
+    assert.equal(timedOut.status, 504);
+    await timedOut.body?.cancel();
+
+    const inProgress = await send();
+    assert.equal(inProgress.status, 409);
+    await inProgress.body?.cancel();
+
+    await finishedLater;
+    const retried = await send();
+    assert.equal(retried.status, 201);
+    assert.deepEqual(await retried.json(), { calls: 2 });
+  } finally {
+    await close();
+  }
+});
+
+test("client disconnects abort the handler's signal", async () => {
+  const config = await createTestConfig();
+  let resolveStarted: (signal: AbortSignal) => void = () => {};
+  const started = new Promise<AbortSignal>((resolve) => {
+    resolveStarted = resolve;
+  });
+  const { close } = await startRouter(
+    config,
+    createSlowRoute((signal) => resolveStarted(signal)),
+  );
+
+  try {
+    const request = http.get(new URL("/slow", config.publicBaseUrl));
+    request.on("error", () => {});
+    const signal = await started;
+    request.destroy();
+
+    await once(signal, "abort");
+    assert.ok(signal.reason instanceof ClientClosedRequestError);
+  } finally {
+    await close();
+  }
+});
+
+test("stop aborts in-flight requests before closing sockets", async () => {
+  const { app, config } = await createTestServer();
+  const request = http.request(new URL("/todos", config.publicBaseUrl), {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      "x-api-key": testApiKey,
+    },
+  });
+  request.on("error", () => {});
+  // The body never finishes, so the request stays in flight until the server stops.
+  request.write('{"title":');
+
+  try {
+    while (app.context.inFlightRequests.size === 0) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+    const [inFlight] = app.context.inFlightRequests;
+
+    await app.stop();
+    assert.equal(inFlight.signal.aborted, true);
+    assert.ok(inFlight.signal.reason instanceof ServiceUnavailableError);
+  } finally {
+    request.destroy();
+  }
+
+  // The server can still be restarted and serve requests afterwards.
+  await app.start();
+  try {
+    const response = await fetchApi(new URL("/todos", config.publicBaseUrl));
+    assert.equal(response.status, 200);
+    await response.body?.cancel();
+  } finally {
+    await app.stop();
+  }
+});
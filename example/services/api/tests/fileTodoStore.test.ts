@@ -0,0 +1,232 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import { appendFile, mkdtemp, readFile, rm, stat } from "node:fs/promises";
+import { syncBuiltinESMExports } from "node:module";
+import os from "node:os";
+import path from "node:path";
+import { test } from "node:test";
+import { createContext } from "../src/createContext.ts";
+import {
+  createTodo,
+  deleteTodo,
+  listTodos,
+  runTodoBatch,
+} from "../src/models/todos.ts";
+import type { Config } from "../src/types.ts";
+import {
+  logFileName,
+  snapshotFileName,
+} from "../src/utils/createFileTodoStore.ts";
+import { createTestConfig } from "./helpers.ts";
+
+const ownerId = "owner-a";
+
+const listAll = {
+  sort: "title",
+  direction: "asc",
+  limit: 100,
+} as const;
+
+async function withDataDirectory(
+  run: (config: Config, directory: string) => Promise<void>,
+): Promise<void> {
+  const directory = await mkdtemp(path.join(os.tmpdir(), "todo-store-"));
+  try {
+    await run(
+      await createTestConfig({
+        todoStore: "file",
+        dataDirectory: directory,
+        fsyncPolicy: "always",
+      }),
+      directory,
+    );
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+}
+
+async function listTitles(config: Config): Promise<string[]> {
+  const context = createContext(config);
+  try {
+    const { todos } = await listTodos(context, ownerId, listAll);
+    return todos.map((todo) => todo.title);
+  } finally {
+    await context.destroy();
+  }
+}
+
+async function readLogLines(directory: string): Promise<string[]> {
+  const content = await readFile(path.join(directory, logFileName), "utf8");
+  return content.split("\n").filter((line) => line.length > 0);
+}
+
+test("todos survive destroying the context and reopening the data directory", async () => {
+  await withDataDirectory(async (config) => {
+    const context = createContext(config);
+    try {
+      await createTodo(context, ownerId, { title: "Alpha" });
+      const removed = await createTodo(context, ownerId, { title: "Beta" });
+      await deleteTodo(context, ownerId, removed.id);
+    } finally {
+      await context.destroy();
+    }
+
+    assert.deepEqual(await listTitles(config), ["Alpha"]);
+    const reopened = createContext(config);
+    try {
+      assert.equal(reopened.db.todos.search(ownerId, "alpha", 10).length, 1);
+    } finally {
+      await reopened.destroy();
+    }
+  });
+});
+
+test("a torn final write is discarded and the log keeps accepting writes", async () => {
+  await withDataDirectory(async (config, directory) => {
+    const context = createContext(config);
+    try {
+      await createTodo(context, ownerId, { title: "Alpha" });
+      await createTodo(context, ownerId, { title: "Beta" });
+    } finally {
+      await context.destroy();
+    }
+
+    const logPath = path.join(directory, logFileName);
+    const { size } = await stat(logPath);
+    // A crash part-way through appending leaves an unterminated line behind.
+    await appendFile(
+      logPath,
+      '{"sequence":3,"writes":[{"op":"put","todo":{"id"',
+    );
+
+    const recovered = createContext(config);
+    try {
+      assert.equal((await stat(logPath)).size, size);
+      await createTodo(recovered, ownerId, { title: "Gamma" });
+    } finally {
+      await recovered.destroy();
+    }
+
+    assert.deepEqual(await listTitles(config), ["Alpha", "Beta", "Gamma"]);
+    assert.equal((await readLogLines(directory)).length, 3);
+  });
+});
+
+test("a failed append is cut off so later writes still replay", async (t) => {
+  await withDataDirectory(async (config) => {
+    const context = createContext(config);
+    try {
+      await createTodo(context, ownerId, { title: "Alpha" });
+
+      // The disk fills up part-way through the next line.
+      const append = t.mock.method(
+        fs,
+        "appendFileSync",
+        (descriptor: number) => {
+          fs.writeSync(descriptor, '{"sequence":2,"wri');
+          throw Object.assign(new Error("no space left on device"), {
+            code: "ENOSPC",
+          });
+        },
+      );
+      syncBuiltinESMExports();
+      try {
+        await assert.rejects(
+          createTodo(context, ownerId, { title: "Beta" }),
+          /no space left/,
+        );
+      } finally {
+        append.mock.restore();
+        syncBuiltinESMExports();
+      }
+
+      await createTodo(context, ownerId, { title: "Gamma" });
+    } finally {
+      await context.destroy();
+    }
+
+    assert.deepEqual(await listTitles(config), ["Alpha", "Gamma"]);
+  });
+});
+
+test("corruption before the final line stops the store from opening", async () => {
+  await withDataDirectory(async (config, directory) => {
+    await appendFile(
+      path.join(directory, logFileName),
+      'not json\n{"sequence":1,"writes":[]}\n',
+    );
+
+    assert.throws(() => createContext(config), /is corrupt at byte 0/);
+  });
+});
+
+test("the log is compacted into a snapshot every configured number of writes", async () => {
+  await withDataDirectory(async (baseConfig, directory) => {
+    const config = { ...baseConfig, snapshotEveryOperations: 2 };
+    const context = createContext(config);
+    try {
+      for (const title of ["Alpha", "Beta", "Gamma"]) {
+        await createTodo(context, ownerId, { title });
+      }
+    } finally {
+      await context.destroy();
+    }
+
+    const snapshot = JSON.parse(
+      await readFile(path.join(directory, snapshotFileName), "utf8"),
+    ) as { sequence: number; todos: unknown[] };
+    assert.equal(snapshot.sequence, 2);
+    assert.equal(snapshot.todos.length, 2);
+    assert.equal((await readLogLines(directory)).length, 1);
+    assert.deepEqual(await listTitles(config), ["Alpha", "Beta", "Gamma"]);
+  });
+});
+
+test("log entries already folded into the snapshot are not replayed", async () => {
+  await withDataDirectory(async (baseConfig, directory) => {
+    const config = { ...baseConfig, snapshotEveryOperations: 2 };
+    const context = createContext(config);
+    let logBeforeCompaction = "";
+    try {
+      const alpha = await createTodo(context, ownerId, { title: "Alpha" });
+      logBeforeCompaction = await readFile(
+        path.join(directory, logFileName),
+        "utf8",
+      );
+      await deleteTodo(context, ownerId, alpha.id);
+    } finally {
+      await context.destroy();
+    }
+
+    // As if the process died after writing the snapshot but before truncating the log.
+    await appendFile(path.join(directory, logFileName), logBeforeCompaction);
+
+    assert.deepEqual(await listTitles(config), []);
+  });
+});
+
+test("an atomic batch is written as a single log entry", async () => {
+  await withDataDirectory(async (config, directory) => {
+    const context = createContext(config);
+    try {
+      const result = await runTodoBatch(context, ownerId, {
+        atomic: true,
+        operations: [
+          { op: "create", body: { title: "Alpha" } },
+          { op: "create", body: { title: "Beta" } },
+        ],
+      });
+      assert.equal(result.committed, true);
+    } finally {
+      await context.destroy();
+    }
+
+    const lines = await readLogLines(directory);
+    assert.equal(lines.length, 1);
+    assert.equal(
+      (JSON.parse(lines[0]) as { writes: unknown[] }).writes.length,
+      2,
+    );
+    assert.deepEqual(await listTitles(config), ["Alpha", "Beta"]);
+  });
+});
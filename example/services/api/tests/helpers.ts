@@ -1,21 +1,70 @@
 import net from "node:net";
+import os from "node:os";
+import path from "node:path";
 import type { AppServer } from "../src/createServer.ts";
 import { createServer } from "../src/createServer.ts";
+import { AuthScopeSchema } from "../src/schemas/auth.ts";
 import type { Config } from "../src/types.ts";
 
-export async function createTestServer(
-  port?: number,
-): Promise<{ app: AppServer; config: Config; port: number }> {
-  const selectedPort = port ?? (await getAvailablePort());
-  const config: Config = {
+export const testApiKey = "test-api-key-with-all-scopes";
+
+export const testAuthTokenSecret = "test-auth-token-secret-of-32-chars";
+
+export async function createTestConfig(
+  overrides: Partial<Config> = {},
+): Promise<Config> {
+  const selectedPort = overrides.todoApiPort ?? (await getAvailablePort());
+  return {
     todoApiPort: selectedPort,
     publicBaseUrl: `http://127.0.0.1:${selectedPort}`,
     maxBodyBytes: 102400,
+    compressionThresholdBytes: 1024,
+    idempotencyKeyTtlMs: 60000,
+    rateLimitCapacity: 10000,
+    rateLimitRefillPerSecond: 10000,
+    rateLimitCleanupIntervalMs: 60000,
+    requestTimeoutMs: 30000,
+    logLevel: "silent",
+    logDestination: "stdout",
+    otlpTracesUrl: null,
+    otlpExportTimeoutMs: 1000,
+    authTokenSecret: testAuthTokenSecret,
+    apiKeys: [
+      {
+        id: "test",
+        key: testApiKey,
+        scopes: AuthScopeSchema.options,
+      },
+    ],
+    errorFormat: "negotiate",
+    todoStore: "memory",
+    dataDirectory: path.join(os.tmpdir(), "todo-api-test-data"),
+    fsyncPolicy: "never",
+    fsyncIntervalMs: 1000,
+    snapshotEveryOperations: 1000,
+    ...overrides,
   };
+}
 
+export async function createTestServer(
+  overrides: Partial<Config> = {},
+): Promise<{ app: AppServer; config: Config; port: number }> {
+  const config = await createTestConfig(overrides);
   const app = createServer(config);
   await app.start();
-  return { app, config, port: selectedPort };
+  return { app, config, port: config.todoApiPort };
+}
+
+// Sends the test API key unless the request already carries its own credentials.
+export function fetchApi(
+  input: string | URL,
+  init: RequestInit = {},
+): Promise<Response> {
+  const headers = new Headers(init.headers);
+  if (!headers.has("authorization") && !headers.has("x-api-key")) {
+    headers.set("x-api-key", testApiKey);
+  }
+  return fetch(input, { ...init, headers });
 }
 
 async function getAvailablePort(): Promise<number> {
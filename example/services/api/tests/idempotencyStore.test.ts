@@ -0,0 +1,39 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { setTimeout as delay } from "node:timers/promises";
+import { createIdempotencyStore } from "../src/utils/createIdempotencyStore.ts";
+
+test("idempotency records expire after the configured TTL", async () => {
+  const store = createIdempotencyStore(20);
+
+  try {
+    store.start("key", "fingerprint");
+    const response = {
+      statusCode: 201,
+      body: { id: "1" },
+      contentType: "application/json; charset=utf-8",
+    };
+    store.complete("key", response);
+    assert.deepEqual(store.get("key"), {
+      fingerprint: "fingerprint",
+      response,
+    });
+
+    await delay(50);
+    assert.equal(store.get("key"), undefined);
+  } finally {
+    store.clear();
+  }
+});
+
+test("released and cleared keys are forgotten immediately", () => {
+  const store = createIdempotencyStore(60_000);
+
+  store.start("released", "fingerprint");
+  store.release("released");
+  assert.equal(store.get("released"), undefined);
+
+  store.start("cleared", "fingerprint");
+  store.clear();
+  assert.equal(store.get("cleared"), undefined);
+});
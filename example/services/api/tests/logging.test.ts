@@ -0,0 +1,208 @@
+import assert from "node:assert/strict";
+import { once } from "node:events";
+import { existsSync } from "node:fs";
+import { mkdtemp, readdir, readFile, readlink, rm } from "node:fs/promises";
+import http from "node:http";
+import os from "node:os";
+import path from "node:path";
+import { test } from "node:test";
+import { createContext } from "../src/createContext.ts";
+import type { Route } from "../src/types.ts";
+import { createLogger } from "../src/utils/createLogger.ts";
+import { createRouter } from "../src/utils/createRouter.ts";
+import { createTestConfig, createTestServer, fetchApi } from "./helpers.ts";
+
+type LogLine = Record<string, unknown> & { level: string; msg: string };
+
+async function withLogFile(
+  run: (logDestination: string) => Promise<void>,
+): Promise<LogLine[]> {
+  const directory = await mkdtemp(path.join(os.tmpdir(), "todo-api-logs-"));
+  const logDestination = path.join(directory, "api.log");
+  try {
+    await run(logDestination);
+    const text = await readFile(logDestination, "utf8");
+    return text
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line) as LogLine);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+}
+
+test("requests get an access log line with a generated or propagated request id", async () => {
+  let generatedId: string | null = null;
+  const lines = await withLogFile(async (logDestination) => {
+    const { app, config } = await createTestServer({
+      logLevel: "info",
+      logDestination,
+    });
+    try {
+      const propagatedRes = await fetchApi(
+        new URL("/todos", config.publicBaseUrl),
+        { headers: { "x-request-id": "upstream-123" } },
+      );
+      assert.equal(propagatedRes.headers.get("x-request-id"), "upstream-123");
+      await propagatedRes.body?.cancel();
+
+      const generatedRes = await fetchApi(
+        new URL("/todos/missing", config.publicBaseUrl),
+        { headers: { "x-request-id": "not a valid id" } },
+      );
+      generatedId = generatedRes.headers.get("x-request-id");
+      assert.match(generatedId ?? "", /^[0-9a-f-]{36}$/);
+      await generatedRes.body?.cancel();
+
+      await app.restart();
+    } finally {
+      await app.stop();
+    }
+  });
+
+  const accessLines = lines.filter((line) => line.msg === "Request completed");
+  assert.deepEqual(
+    accessLines
+      .filter((line) => line.path !== "/health")
+      .map((line) => [line.requestId, line.method, line.path, line.status]),
+    [
+      ["upstream-123", "GET", "/todos", 200],
+      [generatedId, "GET", "/todos/missing", 400],
+    ],
+  );
+
+  assert.deepEqual(
+    lines.filter((line) => line.phase).map((line) => [line.phase, line.msg]),
+    [
+      ["start", "Server started"],
+      ["stop", "Server stopped"],
+      ["start", "Server started"],
+      ["restart", "Server restarted"],
+      ["stop", "Server stopped"],
+    ],
+  );
+});
+
+test("unhandled errors are logged with their stack and request id", async () => {
+  const lines = await withLogFile(async (logDestination) => {
+    const config = await createTestConfig({
+      logLevel: "error",
+      logDestination,
+    });
+    const context = createContext(config);
+    const route: Route = {
+      method: "GET",
+      pathname: "/broken",
+      pattern: new URLPattern({ pathname: "/broken" }),
+      controller: Promise.resolve({
+        default: {
+          auth: "public",
+          rateLimitCost: 0,
+          openapi: { operationId: "broken", summary: "broken", responses: {} },
+          handler: async () => {
+            throw new Error("Database exploded");
+          },
+        },
+      }),
+    };
+    const handleRequest = createRouter(context, [route]);
+    const server = http.createServer((request, response) => {
+      handleRequest(request, response);
+    });
+    server.listen(config.todoApiPort, "127.0.0.1");
+    await once(server, "listening");
+
+    try {
+      const response = await fetch(new URL("/broken", config.publicBaseUrl), {
+        headers: { "x-request-id": "broken-request" },
+      });
+      assert.equal(response.status, 500);
+      await response.body?.cancel();
+    } finally {
+      server.closeAllConnections();
+      server.close();
+      await context.destroy();
+    }
+  });
+
+  assert.equal(lines.length, 1);
+  const [line] = lines;
+  assert.equal(line.level, "error");
+  assert.equal(line.requestId, "broken-request");
+  const error = line.error as { message: string; stack: string };
+  assert.equal(error.message, "Database exploded");
+  assert.match(error.stack, /Database exploded\n\s+at /);
+});
+
+test("a log file that cannot be opened fails when the logger is created", async () => {
+  const directory = await mkdtemp(path.join(os.tmpdir(), "todo-api-logs-"));
+  try {
+    assert.throws(
+      () =>
+        createLogger({
+          level: "info",
+          destination: path.join(directory, "missing", "api.log"),
+        }),
+      { code: "ENOENT" },
+    );
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+});
+
+test(
+  "log write failures are reported instead of crashing the process",
+  { skip: !existsSync("/dev/full") },
+  async (t) => {
+    const reports: string[] = [];
+    t.mock.method(process.stderr, "write", (chunk: string | Uint8Array) => {
+      reports.push(String(chunk));
+      return true;
+    });
+
+    // Writes to /dev/full always fail with ENOSPC.
+    const logger = createLogger({ level: "info", destination: "/dev/full" });
+    logger.info("Lost line");
+    await logger.close();
+
+    assert.ok(
+      reports.some((report) => report.includes("Failed to write log lines")),
+    );
+  },
+);
+
+async function countOpenDescriptors(filePath: string): Promise<number> {
+  const descriptors = await readdir("/proc/self/fd");
+  const targets = await Promise.all(
+    descriptors.map((descriptor) =>
+      readlink(path.join("/proc/self/fd", descriptor)).catch(() => ""),
+    ),
+  );
+  return targets.filter((target) => target === filePath).length;
+}
+
+test(
+  "flushing a child logger leaves the shared log file open",
+  { skip: !existsSync("/proc/self/fd") },
+  async () => {
+    const lines = await withLogFile(async (logDestination) => {
+      const logger = createLogger({
+        level: "info",
+        destination: logDestination,
+      });
+      const child = logger.child({ requestId: "first" });
+      child.info("From the child");
+      await child.flush();
+      assert.equal(await countOpenDescriptors(logDestination), 1);
+
+      logger.info("From the parent");
+      await logger.close();
+      assert.equal(await countOpenDescriptors(logDestination), 0);
+    });
+
+    assert.deepEqual(
+      lines.map((line) => line.msg),
+      ["From the child", "From the parent"],
+    );
+  },
+);
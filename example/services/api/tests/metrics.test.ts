@@ -0,0 +1,103 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createMetricsRegistry } from "../src/utils/createMetricsRegistry.ts";
+import { createTestServer, fetchApi } from "./helpers.ts";
+
+test("registry renders counters, gauges and cumulative histograms", () => {
+  const metrics = createMetricsRegistry();
+  const requests = metrics.counter("requests_total", "Requests");
+  const queued = metrics.gauge("queued", "Queued jobs");
+  metrics.gauge("collected", "Collected on render", () => 7);
+  const latency = metrics.histogram("latency_seconds", "Latency", [0.1, 1]);
+
+  requests.inc({ route: "/todos", method: "GET" });
+  requests.inc({ method: "GET", route: "/todos" }, 2);
+  requests.inc({ route: 'quote"and\\slash' });
+  queued.set(3);
+  latency.observe(0.05);
+  latency.observe(0.5);
+  latency.observe(5);
+
+  assert.equal(
+    metrics.render(),
+    [
+      "# HELP requests_total Requests",
+      "# TYPE requests_total counter",
+      'requests_total{route="/todos",method="GET"} 3',
+      'requests_total{route="quote\\"and\\\\slash"} 1',
+      "# HELP queued Queued jobs",
+      "# TYPE queued gauge",
+      "queued 3",
+      "# HELP collected Collected on render",
+      "# TYPE collected gauge",
+      "collected 7",
+      "# HELP latency_seconds Latency",
+      "# TYPE latency_seconds histogram",
+      'latency_seconds_bucket{le="0.1"} 1',
+      'latency_seconds_bucket{le="1"} 2',
+      'latency_seconds_bucket{le="+Inf"} 3',
+      "latency_seconds_sum 5.55",
+      "latency_seconds_count 3",
+      "",
+    ].join("\n"),
+  );
+
+  assert.throws(() => requests.inc({}, -1), /cannot decrease/);
+  assert.throws(() => metrics.counter("queued", "Again"), /already registered/);
+
+  metrics.clear();
+  assert.doesNotMatch(metrics.render(), /requests_total\{/);
+});
+
+test("GET /metrics reports per-route requests, store size and sockets", async () => {
+  const { app, config } = await createTestServer();
+
+  try {
+    const createdRes = await fetchApi(new URL("/todos", config.publicBaseUrl), {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ title: "Measured" }),
+    });
+    const created = (await createdRes.json()) as { id: string };
+    const getRes = await fetchApi(
+      new URL(`/todos/${created.id}`, config.publicBaseUrl),
+    );
+    await getRes.body?.cancel();
+
+    const anonymousRes = await fetch(new URL("/metrics", config.publicBaseUrl));
+    assert.equal(anonymousRes.status, 401);
+    await anonymousRes.body?.cancel();
+
+    const metricsRes = await fetchApi(
+      new URL("/metrics", config.publicBaseUrl),
+    );
+    assert.equal(metricsRes.status, 200);
+    assert.match(
+      metricsRes.headers.get("content-type") ?? "",
+      /^text\/plain; version=0\.0\.4/,
+    );
+    const text = await metricsRes.text();
+
+    assert.match(
+      text,
+      /^http_requests_total\{method="GET",route="\/todos\/:todoId",status_class="2xx"\} 1$/m,
+    );
+    assert.match(
+      text,
+      /^http_requests_total\{method="POST",route="\/todos",status_class="2xx"\} 1$/m,
+    );
+    assert.match(
+      text,
+      /^http_requests_total\{method="GET",route="\/metrics",status_class="4xx"\} 1$/m,
+    );
+    assert.doesNotMatch(text, new RegExp(created.id));
+    assert.match(
+      text,
+      /^http_request_duration_seconds_count\{method="POST",route="\/todos"\} 1$/m,
+    );
+    assert.match(text, /^todo_store_todos 1$/m);
+    assert.match(text, /^http_open_sockets [1-9]\d*$/m);
+  } finally {
+    await app.stop();
+  }
+});
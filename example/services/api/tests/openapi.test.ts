@@ -0,0 +1,161 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { Validator } from "@seriousme/openapi-schema-validator";
+import { createTestServer } from "./helpers.ts";
+
+type OpenApiDocument = {
+  openapi: string;
+  paths: Record<string, Record<string, Record<string, unknown>>>;
+  components: {
+    schemas: Record<string, unknown>;
+    securitySchemes: Record<string, unknown>;
+  };
+};
+
+test("OpenAPI document is valid OpenAPI 3.1", async () => {
+  const { app, config } = await createTestServer();
+
+  try {
+    const openApiRes = await fetch(
+      new URL("/openapi.json", config.publicBaseUrl),
+    );
+    const openapi = (await openApiRes.json()) as OpenApiDocument;
+
+    const validator = new Validator();
+    const result = await validator.validate(openapi);
+    assert.equal(result.valid, true, JSON.stringify(result.errors, null, 2));
+    assert.equal(openapi.openapi, "3.1.0");
+  } finally {
+    await app.stop();
+  }
+});
+
+test("OpenAPI document derives parameters and payloads from Zod schemas", async () => {
+  const { app, config } = await createTestServer();
+
+  try {
+    const openApiRes = await fetch(
+      new URL("/openapi.json", config.publicBaseUrl),
+    );
+    const openapi = (await openApiRes.json()) as OpenApiDocument;
+
+    assert.deepEqual(openapi.paths["/todos/{todoId}"].get.parameters, [
+      {
+        name: "todoId",
+        in: "path",
+        required: true,
+        schema: { type: "string", format: "uuid" },
+      },
+      {
+        name: "if-none-match",
+        in: "header",
+        required: false,
+        schema: { type: "string" },
+      },
+    ]);
+    const createTodoBody = {
+      schema: { $ref: "#/components/schemas/CreateTodo" },
+    };
+    assert.deepEqual(openapi.paths["/todos"].post.requestBody, {
+      required: true,
+      content: {
+        "application/json": createTodoBody,
+        "application/x-www-form-urlencoded": createTodoBody,
+        "multipart/form-data": createTodoBody,
+      },
+    });
+    assert.deepEqual(openapi.components.schemas.TodoListResponse, {
+      type: "object",
+      properties: {
+        todos: {
+          type: "array",
+          items: { $ref: "#/components/schemas/Todo" },
+        },
+        nextCursor: { anyOf: [{ type: "string" }, { type: "null" }] },
+      },
+      required: ["todos", "nextCursor"],
+    });
+    const listParameters = openapi.paths["/todos"].get.parameters as Array<{
+      name: string;
+      schema: unknown;
+    }>;
+    assert.deepEqual(
+      listParameters.map((parameter) => parameter.name),
+      [
+        "completed",
+        "createdAfter",
+        "createdBefore",
+        "sort",
+        "direction",
+        "limit",
+        "cursor",
+      ],
+    );
+    assert.deepEqual(
+      listParameters.find((parameter) => parameter.name === "sort")?.schema,
+      {
+        type: "string",
+        enum: ["createdAt", "updatedAt", "title"],
+        default: "createdAt",
+      },
+    );
+    assert.deepEqual(openapi.components.schemas.CreateTodo, {
+      type: "object",
+      properties: {
+        title: { type: "string", minLength: 1, maxLength: 200 },
+      },
+      required: ["title"],
+    });
+    assert.ok(openapi.components.schemas.ErrorResponse);
+    assert.deepEqual(Object.keys(openapi.components.securitySchemes), [
+      "bearerAuth",
+      "apiKeyAuth",
+    ]);
+    assert.deepEqual(openapi.paths["/health"].get.security, []);
+    assert.deepEqual(openapi.paths["/todos"].post.security, [
+      { bearerAuth: ["todos:write"] },
+      { apiKeyAuth: ["todos:write"] },
+    ]);
+  } finally {
+    await app.stop();
+  }
+});
+
+test("OpenAPI document declares the statuses the router sends for each route", async () => {
+  const { app, config } = await createTestServer();
+
+  try {
+    const openApiRes = await fetch(
+      new URL("/openapi.json", config.publicBaseUrl),
+    );
+    const openapi = (await openApiRes.json()) as OpenApiDocument;
+    const statuses = (pathname: string) =>
+      Object.keys(
+        openapi.paths[pathname].get.responses as Record<string, unknown>,
+      );
+
+    assert.deepEqual(statuses("/health"), ["200", "503", "504"]);
+    assert.deepEqual(statuses("/openapi.json"), ["200", "429", "503", "504"]);
+    assert.deepEqual(statuses("/metrics"), [
+      "200",
+      "401",
+      "403",
+      "429",
+      "503",
+      "504",
+    ]);
+    assert.deepEqual(statuses("/todos"), [
+      "200",
+      "400",
+      "401",
+      "403",
+      "406",
+      "429",
+      "503",
+      "504",
+    ]);
+    assert.ok("413" in (openapi.paths["/todos"].post.responses as object));
+  } finally {
+    await app.stop();
+  }
+});
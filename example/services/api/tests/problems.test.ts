@@ -0,0 +1,113 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { Problem } from "../src/schemas/errors.ts";
+import { createErrorCatalogue } from "../src/utils/errorCatalogue.ts";
+import { createOpenApiDocument } from "../src/utils/openapi.ts";
+import { createTestServer, fetchApi } from "./helpers.ts";
+
+test("errors are negotiated between problem details and the legacy JSON shape", async () => {
+  const { app, config } = await createTestServer();
+
+  try {
+    const problemRes = await fetchApi(
+      new URL("/todos/not-a-uuid?token=secret", config.publicBaseUrl),
+      { headers: { accept: "application/problem+json" } },
+    );
+    assert.equal(problemRes.status, 400);
+    assert.match(
+      problemRes.headers.get("content-type") ?? "",
+      /^application\/problem\+json/,
+    );
+    assert.match(problemRes.headers.get("vary") ?? "", /accept/);
+    const problem = (await problemRes.json()) as Problem;
+    assert.deepEqual(problem, {
+      type: new URL("/problems/validation-error", config.publicBaseUrl).href,
+      title: "Validation failed",
+      status: 400,
+      detail: "Invalid request params",
+      instance: "/todos/not-a-uuid",
+      code: "VALIDATION_ERROR",
+      errors: [{ detail: "Invalid uuid", parameter: "todoId" }],
+    });
+
+    const jsonRes = await fetchApi(
+      new URL("/todos/not-a-uuid", config.publicBaseUrl),
+      { headers: { accept: "application/json" } },
+    );
+    assert.match(
+      jsonRes.headers.get("content-type") ?? "",
+      /^application\/json/,
+    );
+    const json = (await jsonRes.json()) as { error: string; code: string };
+    assert.equal(json.error, "Invalid request params");
+    assert.equal(json.code, "VALIDATION_ERROR");
+
+    const unmatchedRes = await fetchApi(
+      new URL("/missing", config.publicBaseUrl),
+      { headers: { accept: "application/problem+json" } },
+    );
+    assert.equal(unmatchedRes.status, 404);
+    assert.equal(
+      ((await unmatchedRes.json()) as Problem).title,
+      "Resource not found",
+    );
+  } finally {
+    await app.stop();
+  }
+});
+
+test("body validation errors point at the failing members", async () => {
+  const { app, config } = await createTestServer({ errorFormat: "problem" });
+
+  try {
+    const response = await fetchApi(new URL("/todos", config.publicBaseUrl), {
+      method: "POST",
+      headers: { "content-type": "application/json", accept: "*/*" },
+      body: JSON.stringify({ title: "" }),
+    });
+    assert.equal(response.status, 400);
+    const problem = (await response.json()) as Problem;
+    assert.equal(problem.detail, "Invalid request body");
+    assert.deepEqual(
+      problem.errors?.map((error) => error.pointer),
+      ["#/title"],
+    );
+
+    const batchRes = await fetchApi(
+      new URL("/todos/batch", config.publicBaseUrl),
+      {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          operations: [{ op: "create", body: { title: 42 } }],
+        }),
+      },
+    );
+    assert.equal(batchRes.status, 400);
+    assert.deepEqual(
+      ((await batchRes.json()) as Problem).errors?.map(
+        (error) => error.pointer,
+      ),
+      ["#/operations/0/body/title"],
+    );
+  } finally {
+    await app.stop();
+  }
+});
+
+test("the OpenAPI document publishes the Problem schema and error catalogue", async () => {
+  const document = await createOpenApiDocument();
+  assert.ok("Problem" in document.components.schemas);
+  assert.deepEqual(document["x-error-catalogue"], createErrorCatalogue());
+
+  const codes = document["x-error-catalogue"].map((entry) => entry.code);
+  for (const code of [
+    "VALIDATION_ERROR",
+    "BATCH_ROLLED_BACK",
+    "INTERNAL_SERVER_ERROR",
+    "DEADLINE_EXCEEDED",
+  ]) {
+    assert.ok(codes.includes(code), `${code} is missing from the catalogue`);
+  }
+  assert.equal(new Set(codes).size, codes.length);
+});
@@ -0,0 +1,27 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { setTimeout as delay } from "node:timers/promises";
+import { createRateLimiter } from "../src/utils/createRateLimiter.ts";
+
+test("token buckets allow bursts up to capacity and refill over time", async () => {
+  const limiter = createRateLimiter({
+    capacity: 3,
+    refillPerSecond: 20,
+    cleanupIntervalMs: 60_000,
+  });
+
+  try {
+    assert.equal(limiter.take("client", 2).remaining, 1);
+    assert.equal(limiter.take("client", 1).allowed, true);
+
+    const refused = limiter.take("client", 1);
+    assert.equal(refused.allowed, false);
+    assert.equal(refused.retryAfterSeconds, 1);
+    assert.equal(limiter.take("other", 1).allowed, true);
+
+    await delay(120);
+    assert.equal(limiter.take("client", 2).allowed, true);
+  } finally {
+    limiter.clear();
+  }
+});
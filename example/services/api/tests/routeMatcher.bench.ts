@@ -0,0 +1,75 @@
+import { performance } from "node:perf_hooks";
+import type { Route } from "../src/types.ts";
+import { compileRoutes } from "../src/utils/routeMatcher.ts";
+
+const resourceCount = 150;
+const iterations = 20_000;
+
+function createRoute(method: string, pathname: string): Route {
+  return {
+    method,
+    pathname,
+    pattern: new URLPattern({ pathname }),
+    controller: Promise.resolve({
+      default: {
+        auth: "public",
+        rateLimitCost: 0,
+        openapi: { operationId: pathname, summary: pathname, responses: {} },
+        handler: async () => {},
+      },
+    }),
+  };
+}
+
+const routes: Route[] = [];
+for (let index = 0; index < resourceCount; index += 1) {
+  routes.push(createRoute("GET", `/resource${index}`));
+  routes.push(createRoute("POST", `/resource${index}`));
+  routes.push(createRoute("GET", `/resource${index}/:itemId`));
+  routes.push(createRoute("PUT", `/resource${index}/:itemId`));
+  routes.push(createRoute("GET", `/resource${index}/:itemId/children`));
+}
+
+const requests = Array.from({ length: 64 }, (_, index) => {
+  const resource = (index * 37) % resourceCount;
+  return index % 2 === 0
+    ? { method: "GET", pathname: `/resource${resource}/item-${index}` }
+    : { method: "PUT", pathname: `/resource${resource}/item-${index}` };
+});
+
+function matchWithUrlPattern(method: string, pathname: string) {
+  for (const route of routes) {
+    if (route.method !== method) {
+      continue;
+    }
+    const match = route.pattern.exec({ pathname });
+    if (match) {
+      return { route, params: match.pathname.groups };
+    }
+  }
+  return undefined;
+}
+
+const matcher = compileRoutes(routes);
+
+function measure(
+  name: string,
+  match: (method: string, pathname: string) => unknown,
+): void {
+  const startedAt = performance.now();
+  for (let iteration = 0; iteration < iterations; iteration += 1) {
+    const request = requests[iteration % requests.length];
+    if (!match(request.method, request.pathname)) {
+      throw new Error(`${name} missed ${request.method} ${request.pathname}`);
+    }
+  }
+  const elapsedMs = performance.now() - startedAt;
+  const perSecond = Math.round((iterations / elapsedMs) * 1000);
+  console.log(
+    `${name}: ${elapsedMs.toFixed(1)}ms for ${iterations} lookups (${perSecond} ops/s)`,
+  );
+}
+
+console.log(`${routes.length} routes`);
+measure("URLPattern loop", matchWithUrlPattern);
+measure("compiled trie", matcher.match);
@@ -0,0 +1,75 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { routes } from "../src/routes.ts";
+import type { Route } from "../src/types.ts";
+import { compileRoutes } from "../src/utils/routeMatcher.ts";
+
+function createRoute(method: string, pathname: string): Route {
+  return {
+    method,
+    pathname,
+    pattern: new URLPattern({ pathname }),
+    controller: Promise.resolve({
+      default: {
+        auth: "public",
+        rateLimitCost: 0,
+        openapi: { operationId: pathname, summary: pathname, responses: {} },
+        handler: async () => {},
+      },
+    }),
+  };
+}
+
+test("matcher returns the same groups as URLPattern", () => {
+  const matcher = compileRoutes(routes);
+  const pathnames = [
+    "/health",
+    "/openapi.json",
+    "/todos",
+    "/todos/",
+    "/todos/3f1c8f1e-6f7e-4a7c-9d7e-2d2c8e7f0a11",
+    "/todos/a%20b",
+    "/todos/a/b",
+    "/missing",
+  ];
+
+  for (const route of routes) {
+    for (const pathname of pathnames) {
+      const expected = route.pattern.exec({ pathname });
+      const match = matcher.match(route.method, pathname);
+      if (!expected) {
+        assert.notEqual(match?.route, route, `${route.method} ${pathname}`);
+        continue;
+      }
+      assert.equal(match?.route, route, `${route.method} ${pathname}`);
+      assert.deepEqual(match?.params, { ...expected.pathname.groups });
+    }
+  }
+});
+
+test("static segments take precedence over params regardless of order", () => {
+  const byParam = createRoute("GET", "/todos/:todoId");
+  const search = createRoute("GET", "/todos/search");
+  const comments = createRoute("GET", "/todos/:todoId/comments");
+  const matcher = compileRoutes([byParam, comments, search]);
+
+  assert.equal(matcher.match("GET", "/todos/search")?.route, search);
+  assert.equal(matcher.match("GET", "/todos/other")?.route, byParam);
+  assert.deepEqual(matcher.match("GET", "/todos/search/comments"), {
+    route: comments,
+    params: { todoId: "search" },
+  });
+  assert.equal(matcher.match("POST", "/todos/search"), undefined);
+  assert.deepEqual(matcher.getMethods("/todos/search"), ["GET"]);
+});
+
+test("duplicate routes fail to compile", () => {
+  assert.throws(
+    () =>
+      compileRoutes([
+        createRoute("GET", "/todos/:todoId"),
+        createRoute("GET", "/todos/:id"),
+      ]),
+    /Duplicate route/,
+  );
+});
@@ -0,0 +1,108 @@
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { test } from "node:test";
+import { pathToFileURL } from "node:url";
+import { routes } from "../src/routes.ts";
+import { discoverRoutes, findRouteDrift } from "../src/utils/discoverRoutes.ts";
+
+async function createControllersDirectory(files: string[]): Promise<URL> {
+  const directory = await mkdtemp(path.join(os.tmpdir(), "controllers-"));
+  for (const file of files) {
+    const filePath = path.join(directory, file);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, "export default {};\n");
+  }
+  return pathToFileURL(`${directory}/`);
+}
+
+test("routes are discovered from the controllers directory", () => {
+  assert.deepEqual(
+    routes.map((route) => `${route.method} ${route.pathname}`),
+    [
+      "GET /health",
+      "GET /metrics",
+      "GET /openapi.json",
+      "GET /todos",
+      "POST /todos",
+      "POST /todos/batch",
+      "GET /todos/search",
+      "GET /todos/:todoId",
+      "PUT /todos/:todoId",
+      "PATCH /todos/:todoId",
+      "DELETE /todos/:todoId",
+    ],
+  );
+});
+
+test("static segments are ordered before parameter segments", async () => {
+  const directory = await createControllersDirectory([
+    "todos/[todoId]/get.ts",
+    "todos/search/get.ts",
+  ]);
+
+  try {
+    const discovered = await discoverRoutes(directory);
+    assert.deepEqual(
+      discovered.map((route) => route.pathname),
+      ["/todos/search", "/todos/:todoId"],
+    );
+  } finally {
+    await rm(directory, { recursive: true });
+  }
+});
+
+test("conflicting parameter names at the same position fail discovery", async () => {
+  const directory = await createControllersDirectory([
+    "todos/[todoId]/get.ts",
+    "todos/[id]/get.ts",
+  ]);
+
+  try {
+    await assert.rejects(discoverRoutes(directory), /Conflicting controller/);
+  } finally {
+    await rm(directory, { recursive: true });
+  }
+});
+
+test("non-method file names fail discovery", async () => {
+  const directory = await createControllersDirectory(["todos/helpers.ts"]);
+
+  try {
+    await assert.rejects(discoverRoutes(directory), /not an HTTP method/);
+  } finally {
+    await rm(directory, { recursive: true });
+  }
+});
+
+test("route drift reports missing, stale and miswired entries", async () => {
+  const discovered = await discoverRoutes(
+    new URL("../src/controllers/", import.meta.url),
+  );
+  const declared = [
+    {
+      method: "GET",
+      pathname: "/health",
+      pattern: new URLPattern({ pathname: "/health" }),
+      controller: import("../src/controllers/todos/get.ts"),
+    },
+    {
+      method: "GET",
+      pathname: "/openapi",
+      pattern: new URLPattern({ pathname: "/openapi" }),
+      controller: import("../src/controllers/openapi.json/get.ts"),
+    },
+    ...discovered.filter(
+      (route) =>
+        route.pathname !== "/health" && route.pathname !== "/openapi.json",
+    ),
+  ];
+
+  assert.deepEqual(await findRouteDrift(declared, discovered), [
+    "GET /health imports a different controller than its file path",
+    "GET /openapi has no controller file",
+    "GET /openapi.json has a controller file but no route entry",
+  ]);
+  assert.deepEqual(await findRouteDrift(routes, discovered), []);
+});
@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createSearchIndex, tokenize } from "../src/utils/createSearchIndex.ts";
+
+test("tokenize folds case and diacritics and splits on punctuation", () => {
+  assert.deepEqual(tokenize("Crème BRÛLÉE, naïve-café 2x"), [
+    "creme",
+    "brulee",
+    "naive",
+    "cafe",
+    "2x",
+  ]);
+});
+
+test("search matches prefixes and ranks exact words above prefixes", () => {
+  const index = createSearchIndex();
+  index.add("a", "Buy groceries");
+  index.add("b", "Buy a gift for Grover");
+  index.add("c", "Clean the garage");
+
+  assert.deepEqual(
+    index.search("gro", 10).map((match) => match.id),
+    ["a", "b"],
+  );
+  assert.deepEqual(
+    index.search("GROVER", 10).map((match) => match.id),
+    ["b"],
+  );
+  assert.deepEqual(
+    index.search("grover gro", 10).map((match) => match.id),
+    ["b"],
+  );
+  assert.deepEqual(index.search("buy garage", 10), []);
+  assert.deepEqual(index.search("!!!", 10), []);
+
+  index.add("d", "Groceries groceries");
+  assert.equal(index.search("groceries", 10)[0].id, "d");
+  assert.equal(index.search("groceries", 1).length, 1);
+});
+
+test("re-adding and removing documents keeps the index consistent", () => {
+  const index = createSearchIndex();
+  index.add("a", "Water the plants");
+  index.add("b", "Water the garden");
+
+  index.add("a", "Feed the cat");
+  assert.deepEqual(
+    index.search("water", 10).map((match) => match.id),
+    ["b"],
+  );
+  assert.deepEqual(
+    index.search("cat", 10).map((match) => match.id),
+    ["a"],
+  );
+
+  index.remove("b");
+  assert.deepEqual(index.search("water", 10), []);
+  assert.deepEqual(index.search("gar", 10), []);
+  assert.deepEqual(
+    index.search("the", 10).map((match) => match.id),
+    ["a"],
+  );
+
+  index.clear();
+  assert.deepEqual(index.search("cat", 10), []);
+});
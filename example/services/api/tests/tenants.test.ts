@@ -0,0 +1,156 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { signAccessToken } from "../src/utils/accessTokens.ts";
+import { createTestServer, fetchApi, testAuthTokenSecret } from "./helpers.ts";
+
+function authorizationFor(subject: string): { authorization: string } {
+  const token = signAccessToken(testAuthTokenSecret, {
+    subject,
+    scopes: ["todos:read", "todos:write"],
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+  });
+  return { authorization: `Bearer ${token}` };
+}
+
+test("tenants only see and change their own todos", async () => {
+  const { app, config } = await createTestServer();
+  const alice = authorizationFor("alice");
+  const bob = authorizationFor("bob");
+  const createTodo = (headers: { authorization: string }, title: string) =>
+    fetch(new URL("/todos", config.publicBaseUrl), {
+      method: "POST",
+      headers: { ...headers, "content-type": "application/json" },
+      body: JSON.stringify({ title }),
+    });
+
+  try {
+    const aliceRes = await createTodo(alice, "Water the plants");
+    assert.equal(aliceRes.status, 201);
+    const aliceTodo = (await aliceRes.json()) as {
+      id: string;
+      ownerId: string;
+    };
+    assert.equal(aliceTodo.ownerId, "user:alice");
+
+    const bobRes = await createTodo(bob, "Water the plants");
+    assert.equal(bobRes.status, 201);
+    const bobTodo = (await bobRes.json()) as { id: string };
+
+    const duplicateRes = await createTodo(alice, "water the plants");
+    assert.equal(duplicateRes.status, 409);
+    await duplicateRes.body?.cancel();
+
+    const bobListRes = await fetch(new URL("/todos", config.publicBaseUrl), {
+      headers: bob,
+    });
+    const bobList = (await bobListRes.json()) as {
+      todos: Array<{ id: string }>;
+    };
+    assert.deepEqual(
+      bobList.todos.map((todo) => todo.id),
+      [bobTodo.id],
+    );
+
+    const bobSearchRes = await fetch(
+      new URL("/todos/search?q=water", config.publicBaseUrl),
+      { headers: bob },
+    );
+    const bobSearch = (await bobSearchRes.json()) as {
+      results: Array<{ todo: { id: string } }>;
+    };
+    assert.deepEqual(
+      bobSearch.results.map((result) => result.todo.id),
+      [bobTodo.id],
+    );
+
+    const aliceTodoUrl = new URL(
+      `/todos/${aliceTodo.id}`,
+      config.publicBaseUrl,
+    );
+    for (const init of [
+      { method: "GET" },
+      {
+        method: "PUT",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ completed: true }),
+      },
+      { method: "DELETE" },
+    ]) {
+      const foreignRes = await fetch(aliceTodoUrl, {
+        ...init,
+        headers: { ...init.headers, ...bob },
+      });
+      assert.equal(foreignRes.status, 404, init.method);
+      await foreignRes.body?.cancel();
+    }
+
+    const aliceGetRes = await fetch(aliceTodoUrl, { headers: alice });
+    const stored = (await aliceGetRes.json()) as { completed: boolean };
+    assert.equal(stored.completed, false);
+  } finally {
+    await app.stop();
+  }
+});
+
+test("idempotency keys are scoped to the caller", async () => {
+  const { app, config } = await createTestServer();
+  const createWithKey = (subject: string) =>
+    fetch(new URL("/todos", config.publicBaseUrl), {
+      method: "POST",
+      headers: {
+        ...authorizationFor(subject),
+        "content-type": "application/json",
+        "idempotency-key": "shared-key",
+      },
+      body: JSON.stringify({ title: "Same request" }),
+    });
+
+  try {
+    const aliceRes = await createWithKey("alice");
+    const bobRes = await createWithKey("bob");
+    assert.equal(aliceRes.status, 201);
+    assert.equal(bobRes.status, 201);
+    assert.equal(bobRes.headers.get("idempotent-replayed"), null);
+
+    const aliceTodo = (await aliceRes.json()) as { id: string };
+    const bobTodo = (await bobRes.json()) as { id: string; ownerId: string };
+    assert.notEqual(bobTodo.id, aliceTodo.id);
+    assert.equal(bobTodo.ownerId, "user:bob");
+  } finally {
+    await app.stop();
+  }
+});
+
+test("a token subject that matches an API key id is a different tenant", async () => {
+  const { app, config } = await createTestServer();
+
+  try {
+    const keyRes = await fetchApi(new URL("/todos", config.publicBaseUrl), {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ title: "Created with the API key" }),
+    });
+    assert.equal(keyRes.status, 201);
+    const keyTodo = (await keyRes.json()) as { id: string; ownerId: string };
+    assert.equal(keyTodo.ownerId, "apiKey:test");
+
+    // The test API key's id is "test".
+    const impostor = authorizationFor("test");
+    const listRes = await fetch(new URL("/todos", config.publicBaseUrl), {
+      headers: impostor,
+    });
+    assert.deepEqual(
+      ((await listRes.json()) as { todos: unknown[] }).todos,
+      [],
+    );
+
+    const getRes = await fetch(
+      new URL(`/todos/${keyTodo.id}`, config.publicBaseUrl),
+      { headers: impostor },
+    );
+    assert.equal(getRes.status, 404);
+    await getRes.body?.cancel();
+  } finally {
+    await app.stop();
+  }
+});
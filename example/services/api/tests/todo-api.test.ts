@@ -1,12 +1,18 @@
 import assert from "node:assert/strict";
+import { readdir } from "node:fs/promises";
+import type http from "node:http";
+import path from "node:path";
+import { PassThrough } from "node:stream";
 import { test } from "node:test";
-import { createTestServer } from "./helpers.ts";
+import { brotliCompressSync, gzipSync } from "node:zlib";
+import { getBodyFromRequest } from "../src/utils/getBodyFromRequest.ts";
+import { createTestServer, fetchApi } from "./helpers.ts";
 
 test("todo API CRUD flow and OpenAPI route", async () => {
   const { app, config } = await createTestServer();
 
   try {
-    const createdRes = await fetch(new URL("/todos", config.publicBaseUrl), {
+    const createdRes = await fetchApi(new URL("/todos", config.publicBaseUrl), {
       method: "POST",
       headers: { "content-type": "application/json" },
       body: JSON.stringify({ title: "Write spec aligned code" }),
@@ -19,12 +25,12 @@ test("todo API CRUD flow and OpenAPI route", async () => {
     };
     assert.equal(created.completed, false);
 
-    const listRes = await fetch(new URL("/todos", config.publicBaseUrl));
+    const listRes = await fetchApi(new URL("/todos", config.publicBaseUrl));
     assert.equal(listRes.status, 200);
     const list = (await listRes.json()) as { todos: Array<{ id: string }> };
     assert.equal(list.todos.length, 1);
 
-    const updateRes = await fetch(
+    const updateRes = await fetchApi(
       new URL(`/todos/${created.id}`, config.publicBaseUrl),
       {
         method: "PUT",
@@ -34,7 +40,7 @@ test("todo API CRUD flow and OpenAPI route", async () => {
     );
     assert.equal(updateRes.status, 200);
 
-    const openApiRes = await fetch(
+    const openApiRes = await fetchApi(
       new URL("/openapi.json", config.publicBaseUrl),
     );
     assert.equal(openApiRes.status, 200);
@@ -44,7 +50,7 @@ test("todo API CRUD flow and OpenAPI route", async () => {
     assert.ok(openapi.paths["/todos"]);
     assert.ok(openapi.paths["/todos/{todoId}"]);
 
-    const deleteRes = await fetch(
+    const deleteRes = await fetchApi(
       new URL(`/todos/${created.id}`, config.publicBaseUrl),
       {
         method: "DELETE",
@@ -60,16 +66,865 @@ test("restart rebinds on the same port and returns healthy state", async () => {
   const { app, config } = await createTestServer();
 
   try {
-    const health1 = await fetch(new URL("/health", config.publicBaseUrl));
+    const health1 = await fetchApi(new URL("/health", config.publicBaseUrl));
     const body1 = (await health1.json()) as { alive: boolean };
     assert.equal(body1.alive, true);
 
     await app.restart();
 
-    const health2 = await fetch(new URL("/health", config.publicBaseUrl));
+    const health2 = await fetchApi(new URL("/health", config.publicBaseUrl));
     const body2 = (await health2.json()) as { alive: boolean };
     assert.equal(body2.alive, true);
   } finally {
     await app.stop();
   }
 });
+
+test("method mismatch returns 405 and HEAD/OPTIONS are answered", async () => {
+  const { app, config } = await createTestServer();
+
+  try {
+    const patchRes = await fetchApi(new URL("/todos", config.publicBaseUrl), {
+      method: "PATCH",
+    });
+    assert.equal(patchRes.status, 405);
+    assert.equal(patchRes.headers.get("allow"), "GET, HEAD, POST, OPTIONS");
+    const patchBody = (await patchRes.json()) as { code: string };
+    assert.equal(patchBody.code, "METHOD_NOT_ALLOWED");
+
+    const headRes = await fetchApi(new URL("/todos", config.publicBaseUrl), {
+      method: "HEAD",
+    });
+    assert.equal(headRes.status, 200);
+    assert.equal(await headRes.text(), "");
+
+    const optionsRes = await fetchApi(new URL("/todos", config.publicBaseUrl), {
+      method: "OPTIONS",
+    });
+    assert.equal(optionsRes.status, 204);
+    assert.equal(optionsRes.headers.get("allow"), "GET, HEAD, POST, OPTIONS");
+
+    const missingRes = await fetchApi(
+      new URL("/missing", config.publicBaseUrl),
+      {
+        method: "PATCH",
+      },
+    );
+    assert.equal(missingRes.status, 404);
+    await missingRes.body?.cancel();
+  } finally {
+    await app.stop();
+  }
+});
+
+test("router validates request bodies against the controller schema", async () => {
+  const { app, config } = await createTestServer();
+
+  try {
+    const invalidRes = await fetchApi(new URL("/todos", config.publicBaseUrl), {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ title: "" }),
+    });
+    assert.equal(invalidRes.status, 400);
+    const invalid = (await invalidRes.json()) as { code: string };
+    assert.equal(invalid.code, "VALIDATION_ERROR");
+
+    const missingRes = await fetchApi(new URL("/todos", config.publicBaseUrl), {
+      method: "POST",
+    });
+    assert.equal(missingRes.status, 400);
+    await missingRes.body?.cancel();
+
+    const listRes = await fetchApi(new URL("/todos", config.publicBaseUrl));
+    const list = (await listRes.json()) as { todos: unknown[] };
+    assert.equal(list.todos.length, 0);
+  } finally {
+    await app.stop();
+  }
+});
+
+test("todo list negotiates JSON, NDJSON and CSV from Accept", async () => {
+  const { app, config } = await createTestServer();
+
+  try {
+    for (const title of ["First, with comma", '=HYPERLINK("x")']) {
+      await fetchApi(new URL("/todos", config.publicBaseUrl), {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ title }),
+      });
+    }
+
+    const ndjsonRes = await fetchApi(new URL("/todos", config.publicBaseUrl), {
+      headers: { accept: "application/x-ndjson" },
+    });
+    assert.equal(ndjsonRes.status, 200);
+    assert.match(
+      ndjsonRes.headers.get("content-type") ?? "",
+      /^application\/x-ndjson/,
+    );
+    const lines = (await ndjsonRes.text()).trim().split("\n");
+    assert.deepEqual(
+      lines.map((line) => (JSON.parse(line) as { title: string }).title),
+      ["First, with comma", '=HYPERLINK("x")'],
+    );
+
+    const csvRes = await fetchApi(new URL("/todos", config.publicBaseUrl), {
+      headers: { accept: "text/csv;q=0.9, application/json;q=0.5" },
+    });
+    assert.equal(csvRes.status, 200);
+    const rows = (await csvRes.text()).split("\r\n");
+    assert.equal(
+      rows[0],
+      "id,ownerId,title,completed,createdAt,updatedAt,version",
+    );
+    assert.match(rows[1], /^[^,]+,apiKey:test,"First, with comma",false,/);
+    assert.match(rows[2], /^[^,]+,apiKey:test,"'=HYPERLINK\(""x""\)",false,/);
+
+    const jsonRes = await fetchApi(new URL("/todos", config.publicBaseUrl), {
+      headers: { accept: "*/*" },
+    });
+    assert.match(
+      jsonRes.headers.get("content-type") ?? "",
+      /^application\/json/,
+    );
+    await jsonRes.body?.cancel();
+
+    const excludedRes = await fetchApi(
+      new URL("/todos", config.publicBaseUrl),
+      {
+        headers: { accept: "application/json;q=0, */*" },
+      },
+    );
+    assert.match(
+      excludedRes.headers.get("content-type") ?? "",
+      /^application\/x-ndjson/,
+    );
+    await excludedRes.body?.cancel();
+
+    const allExcludedRes = await fetchApi(
+      new URL("/todos", config.publicBaseUrl),
+      { headers: { accept: "*/*, application/*;q=0, text/csv;q=0" } },
+    );
+    assert.equal(allExcludedRes.status, 406);
+    await allExcludedRes.body?.cancel();
+
+    const xmlRes = await fetchApi(new URL("/todos", config.publicBaseUrl), {
+      headers: { accept: "application/xml" },
+    });
+    assert.equal(xmlRes.status, 406);
+    const xmlBody = (await xmlRes.json()) as { code: string };
+    assert.equal(xmlBody.code, "NOT_ACCEPTABLE");
+  } finally {
+    await app.stop();
+  }
+});
+
+test("todo creation accepts form-urlencoded and multipart bodies", async () => {
+  const { app, config } = await createTestServer();
+
+  try {
+    const formRes = await fetchApi(new URL("/todos", config.publicBaseUrl), {
+      method: "POST",
+      body: new URLSearchParams({ title: "From a form" }),
+    });
+    assert.equal(formRes.status, 201);
+    const formTodo = (await formRes.json()) as { title: string };
+    assert.equal(formTodo.title, "From a form");
+
+    const multipart = new FormData();
+    multipart.set("title", "From multipart");
+    multipart.set("attachment", new Blob(["file contents"]), "notes.txt");
+    const multipartRes = await fetchApi(
+      new URL("/todos", config.publicBaseUrl),
+      {
+        method: "POST",
+        body: multipart,
+      },
+    );
+    assert.equal(multipartRes.status, 201);
+    const multipartTodo = (await multipartRes.json()) as { title: string };
+    assert.equal(multipartTodo.title, "From multipart");
+
+    const textRes = await fetchApi(new URL("/todos", config.publicBaseUrl), {
+      method: "POST",
+      headers: { "content-type": "text/plain" },
+      body: "title",
+    });
+    assert.equal(textRes.status, 415);
+    const textBody = (await textRes.json()) as { code: string };
+    assert.equal(textBody.code, "UNSUPPORTED_MEDIA_TYPE");
+
+    const oversized = new FormData();
+    oversized.set("title", "Too large");
+    oversized.set(
+      "attachment",
+      new Blob([new Uint8Array(config.maxBodyBytes + 1)]),
+      "large.bin",
+    );
+    const oversizedRes = await fetchApi(
+      new URL("/todos", config.publicBaseUrl),
+      {
+        method: "POST",
+        body: oversized,
+      },
+    );
+    assert.equal(oversizedRes.status, 413);
+    await oversizedRes.body?.cancel();
+
+    // Uploads are removed after the error response is sent, so the directory can take a moment to empty.
+    const probePath = await app.context.temporaryFiles.create();
+    const temporaryDirectory = path.dirname(probePath);
+    for (
+      let attempt = 0;
+      attempt < 100 && (await readdir(temporaryDirectory)).length > 0;
+      attempt += 1
+    ) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+    assert.deepEqual(await readdir(temporaryDirectory), []);
+  } finally {
+    await app.stop();
+  }
+});
+
+test("compressed request bodies are decoded and large responses compressed", async () => {
+  const { app, config } = await createTestServer();
+
+  try {
+    const createdRes = await fetchApi(new URL("/todos", config.publicBaseUrl), {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        "content-encoding": "gzip",
+      },
+      body: gzipSync(JSON.stringify({ title: "x".repeat(200) })),
+    });
+    assert.equal(createdRes.status, 201);
+
+    const bombRes = await fetchApi(new URL("/todos", config.publicBaseUrl), {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        "content-encoding": "gzip",
+      },
+      body: gzipSync(Buffer.alloc(config.maxBodyBytes + 1, " ")),
+    });
+    assert.equal(bombRes.status, 413);
+    assert.equal(
+      ((await bombRes.json()) as { error: string }).error,
+      "Request body too large",
+    );
+
+    const corruptRes = await fetchApi(new URL("/todos", config.publicBaseUrl), {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        "content-encoding": "gzip",
+      },
+      body: "not gzip",
+    });
+    assert.equal(corruptRes.status, 400);
+    await corruptRes.body?.cancel();
+
+    const truncatedRes = await fetchApi(
+      new URL("/todos", config.publicBaseUrl),
+      {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          "content-encoding": "br",
+        },
+        body: brotliCompressSync(JSON.stringify({ title: "Cut" })).subarray(
+          0,
+          4,
+        ),
+      },
+    );
+    assert.equal(truncatedRes.status, 400);
+    await truncatedRes.body?.cancel();
+
+    // A stream that fails for reasons other than its encoding keeps its own error.
+    const aborted = Object.assign(new PassThrough(), {
+      headers: { "content-encoding": "gzip" },
+    });
+    const reset = Object.assign(new Error("aborted"), { code: "ECONNRESET" });
+    setImmediate(() => aborted.destroy(reset));
+    await assert.rejects(
+      getBodyFromRequest(
+        app.context,
+        aborted as unknown as http.IncomingMessage,
+        "json",
+      ),
+      reset,
+    );
+
+    const unknownRes = await fetchApi(new URL("/todos", config.publicBaseUrl), {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        "content-encoding": "compress",
+      },
+      body: "{}",
+    });
+    assert.equal(unknownRes.status, 415);
+    await unknownRes.body?.cancel();
+
+    for (let index = 0; index < 10; index += 1) {
+      await fetchApi(new URL("/todos", config.publicBaseUrl), {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ title: `Todo ${index}` }),
+      });
+    }
+
+    const brotliRes = await fetchApi(new URL("/todos", config.publicBaseUrl), {
+      headers: { "accept-encoding": "gzip;q=0.5, br" },
+    });
+    assert.equal(brotliRes.headers.get("content-encoding"), "br");
+    assert.match(brotliRes.headers.get("vary") ?? "", /accept-encoding/);
+    const list = (await brotliRes.json()) as { todos: unknown[] };
+    assert.equal(list.todos.length, 11);
+
+    const identityRes = await fetchApi(
+      new URL("/todos", config.publicBaseUrl),
+      {
+        headers: { "accept-encoding": "identity" },
+      },
+    );
+    assert.equal(identityRes.headers.get("content-encoding"), null);
+    await identityRes.body?.cancel();
+
+    const healthRes = await fetchApi(new URL("/health", config.publicBaseUrl), {
+      headers: { "accept-encoding": "gzip" },
+    });
+    assert.equal(healthRes.headers.get("content-encoding"), null);
+    await healthRes.body?.cancel();
+
+    const ndjsonRes = await fetchApi(new URL("/todos", config.publicBaseUrl), {
+      headers: { accept: "application/x-ndjson", "accept-encoding": "gzip" },
+    });
+    assert.equal(ndjsonRes.headers.get("content-encoding"), "gzip");
+    const lines = (await ndjsonRes.text()).trim().split("\n");
+    assert.equal(lines.length, 11);
+  } finally {
+    await app.stop();
+  }
+});
+
+test("todo ETags answer If-None-Match and guard writes with If-Match", async () => {
+  const { app, config } = await createTestServer();
+
+  try {
+    const createdRes = await fetchApi(new URL("/todos", config.publicBaseUrl), {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ title: "Edit me" }),
+    });
+    const created = (await createdRes.json()) as { id: string };
+    const todoUrl = new URL(`/todos/${created.id}`, config.publicBaseUrl);
+
+    const getRes = await fetchApi(todoUrl);
+    const etag = getRes.headers.get("etag");
+    assert.equal(etag, '"1"');
+    await getRes.body?.cancel();
+
+    const notModifiedRes = await fetchApi(todoUrl, {
+      headers: { "if-none-match": `W/${etag}` },
+    });
+    assert.equal(notModifiedRes.status, 304);
+    assert.equal(notModifiedRes.headers.get("etag"), etag);
+
+    const updateRes = await fetchApi(todoUrl, {
+      method: "PUT",
+      headers: { "content-type": "application/json", "if-match": etag ?? "" },
+      body: JSON.stringify({ completed: true }),
+    });
+    assert.equal(updateRes.status, 200);
+    assert.equal(updateRes.headers.get("etag"), '"2"');
+    assert.equal(((await updateRes.json()) as { version: number }).version, 2);
+
+    const staleUpdateRes = await fetchApi(todoUrl, {
+      method: "PUT",
+      headers: { "content-type": "application/json", "if-match": etag ?? "" },
+      body: JSON.stringify({ title: "Overwritten" }),
+    });
+    assert.equal(staleUpdateRes.status, 412);
+    assert.equal(
+      ((await staleUpdateRes.json()) as { code: string }).code,
+      "PRECONDITION_FAILED",
+    );
+
+    const staleDeleteRes = await fetchApi(todoUrl, {
+      method: "DELETE",
+      headers: { "if-match": etag ?? "" },
+    });
+    assert.equal(staleDeleteRes.status, 412);
+    await staleDeleteRes.body?.cancel();
+
+    const changedRes = await fetchApi(todoUrl, {
+      headers: { "if-none-match": etag ?? "" },
+    });
+    assert.equal(changedRes.status, 200);
+    assert.equal(
+      ((await changedRes.json()) as { title: string }).title,
+      "Edit me",
+    );
+
+    const deleteRes = await fetchApi(todoUrl, {
+      method: "DELETE",
+      headers: { "if-match": '"2"' },
+    });
+    assert.equal(deleteRes.status, 204);
+  } finally {
+    await app.stop();
+  }
+});
+
+test("todos accept merge patch and JSON patch documents", async () => {
+  const { app, config } = await createTestServer();
+
+  try {
+    const createdRes = await fetchApi(new URL("/todos", config.publicBaseUrl), {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ title: "Patch me" }),
+    });
+    const created = (await createdRes.json()) as { id: string };
+    const todoUrl = new URL(`/todos/${created.id}`, config.publicBaseUrl);
+
+    const mergeRes = await fetchApi(todoUrl, {
+      method: "PATCH",
+      headers: { "content-type": "application/merge-patch+json" },
+      body: JSON.stringify({ completed: true }),
+    });
+    assert.equal(mergeRes.status, 200);
+    assert.equal(mergeRes.headers.get("etag"), '"2"');
+    const merged = (await mergeRes.json()) as {
+      title: string;
+      completed: boolean;
+    };
+    assert.deepEqual([merged.title, merged.completed], ["Patch me", true]);
+
+    const jsonPatchRes = await fetchApi(todoUrl, {
+      method: "PATCH",
+      headers: {
+        "content-type": "application/json-patch+json",
+        "if-match": '"2"',
+      },
+      body: JSON.stringify([
+        { op: "test", path: "/completed", value: true },
+        { op: "replace", path: "/title", value: "Patched" },
+      ]),
+    });
+    assert.equal(jsonPatchRes.status, 200);
+    assert.equal(
+      ((await jsonPatchRes.json()) as { title: string }).title,
+      "Patched",
+    );
+
+    for (const [contentType, patch] of [
+      ["application/json-patch+json", [{ op: "remove", path: "/missing" }]],
+      ["application/merge-patch+json", { title: null }],
+      ["application/merge-patch+json", { id: crypto.randomUUID() }],
+      ["application/merge-patch+json", { extra: true }],
+      ["application/merge-patch+json", { title: "x".repeat(5000) }],
+      [
+        "application/json-patch+json",
+        [{ op: "replace", path: "/title", value: "x".repeat(201) }],
+      ],
+    ] as const) {
+      const failedRes = await fetchApi(todoUrl, {
+        method: "PATCH",
+        headers: { "content-type": contentType },
+        body: JSON.stringify(patch),
+      });
+      assert.equal(failedRes.status, 422, JSON.stringify(patch));
+      assert.equal(
+        ((await failedRes.json()) as { code: string }).code,
+        "PATCH_FAILED",
+      );
+    }
+
+    for (const op of ["add", "replace", "test"]) {
+      const missingValueRes = await fetchApi(todoUrl, {
+        method: "PATCH",
+        headers: { "content-type": "application/json-patch+json" },
+        body: JSON.stringify([{ op, path: "/title" }]),
+      });
+      assert.equal(missingValueRes.status, 400, op);
+      assert.equal(
+        ((await missingValueRes.json()) as { code: string }).code,
+        "VALIDATION_ERROR",
+      );
+    }
+
+    const jsonRes = await fetchApi(todoUrl, {
+      method: "PATCH",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ title: "Plain JSON" }),
+    });
+    assert.equal(jsonRes.status, 415);
+    await jsonRes.body?.cancel();
+
+    const unchangedRes = await fetchApi(todoUrl);
+    const unchanged = (await unchangedRes.json()) as {
+      title: string;
+      version: number;
+    };
+    assert.deepEqual([unchanged.title, unchanged.version], ["Patched", 3]);
+  } finally {
+    await app.stop();
+  }
+});
+
+test("todo list filters, sorts and paginates with an opaque cursor", async () => {
+  const { app, config } = await createTestServer();
+
+  type TodoPage = {
+    todos: Array<{ id: string; title: string; completed: boolean }>;
+    nextCursor: string | null;
+  };
+
+  try {
+    for (const title of ["delta", "alpha", "echo", "charlie", "bravo"]) {
+      const createdRes = await fetchApi(
+        new URL("/todos", config.publicBaseUrl),
+        {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify({ title }),
+        },
+      );
+      const created = (await createdRes.json()) as { id: string };
+      if (title === "alpha" || title === "echo") {
+        await fetchApi(new URL(`/todos/${created.id}`, config.publicBaseUrl), {
+          method: "PUT",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify({ completed: true }),
+        });
+      }
+    }
+
+    const titles: string[] = [];
+    let url: URL | undefined = new URL(
+      "/todos?sort=title&direction=desc&limit=2",
+      config.publicBaseUrl,
+    );
+    let pages = 0;
+    while (url) {
+      const pageRes: Response = await fetchApi(url);
+      assert.equal(pageRes.status, 200);
+      const page = (await pageRes.json()) as TodoPage;
+      titles.push(...page.todos.map((todo) => todo.title));
+      pages += 1;
+
+      const link = pageRes.headers.get("link");
+      if (page.nextCursor) {
+        assert.match(link ?? "", /rel="next"/);
+        url = new URL(url);
+        url.searchParams.set("cursor", page.nextCursor);
+      } else {
+        assert.equal(link, null);
+        url = undefined;
+      }
+    }
+    assert.equal(pages, 3);
+    assert.deepEqual(titles, ["echo", "delta", "charlie", "bravo", "alpha"]);
+
+    const completedRes = await fetchApi(
+      new URL("/todos?completed=true&sort=title", config.publicBaseUrl),
+    );
+    const completed = (await completedRes.json()) as TodoPage;
+    assert.deepEqual(
+      completed.todos.map((todo) => todo.title),
+      ["alpha", "echo"],
+    );
+
+    const futureRes = await fetchApi(
+      new URL(
+        `/todos?createdAfter=${new Date(Date.now() + 60_000).toISOString()}`,
+        config.publicBaseUrl,
+      ),
+    );
+    assert.deepEqual(((await futureRes.json()) as TodoPage).todos, []);
+
+    const firstPageRes = await fetchApi(
+      new URL("/todos?limit=1", config.publicBaseUrl),
+    );
+    const { nextCursor } = (await firstPageRes.json()) as TodoPage;
+    const mismatchedRes = await fetchApi(
+      new URL(`/todos?sort=title&cursor=${nextCursor}`, config.publicBaseUrl),
+    );
+    assert.equal(mismatchedRes.status, 400);
+    await mismatchedRes.body?.cancel();
+
+    for (const query of ["limit=0", "limit=101", "sort=id", "cursor=bogus"]) {
+      const invalidRes = await fetchApi(
+        new URL(`/todos?${query}`, config.publicBaseUrl),
+      );
+      assert.equal(invalidRes.status, 400, query);
+      await invalidRes.body?.cancel();
+    }
+  } finally {
+    await app.stop();
+  }
+});
+
+test("todo search follows creates, updates, patches and deletes", async () => {
+  const { app, config } = await createTestServer();
+
+  type SearchResponse = {
+    results: Array<{ score: number; todo: { id: string; title: string } }>;
+  };
+  const search = async (q: string) => {
+    const searchRes = await fetchApi(
+      new URL(`/todos/search?q=${encodeURIComponent(q)}`, config.publicBaseUrl),
+    );
+    assert.equal(searchRes.status, 200);
+    const body = (await searchRes.json()) as SearchResponse;
+    return body.results.map((result) => result.todo.title);
+  };
+
+  try {
+    const ids: Record<string, string> = {};
+    for (const title of ["Réserver le café", "Cafeteria lunch", "File taxes"]) {
+      const createdRes = await fetchApi(
+        new URL("/todos", config.publicBaseUrl),
+        {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify({ title }),
+        },
+      );
+      ids[title] = ((await createdRes.json()) as { id: string }).id;
+    }
+
+    assert.deepEqual(await search("CAFE"), [
+      "Réserver le café",
+      "Cafeteria lunch",
+    ]);
+
+    await fetchApi(
+      new URL(`/todos/${ids["Cafeteria lunch"]}`, config.publicBaseUrl),
+      {
+        method: "PUT",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ title: "Canteen lunch" }),
+      },
+    );
+    assert.deepEqual(await search("cafe"), ["Réserver le café"]);
+    assert.deepEqual(await search("lunch"), ["Canteen lunch"]);
+
+    await fetchApi(
+      new URL(`/todos/${ids["File taxes"]}`, config.publicBaseUrl),
+      {
+        method: "PATCH",
+        headers: { "content-type": "application/merge-patch+json" },
+        body: JSON.stringify({ title: "File taxes early" }),
+      },
+    );
+    assert.deepEqual(await search("earl"), ["File taxes early"]);
+
+    await fetchApi(
+      new URL(`/todos/${ids["Réserver le café"]}`, config.publicBaseUrl),
+      { method: "DELETE" },
+    );
+    assert.deepEqual(await search("cafe"), []);
+
+    const missingRes = await fetchApi(
+      new URL("/todos/search", config.publicBaseUrl),
+    );
+    assert.equal(missingRes.status, 400);
+    await missingRes.body?.cancel();
+
+    await app.restart();
+    assert.deepEqual(await search("lunch"), []);
+  } finally {
+    await app.stop();
+  }
+});
+
+test("todo batches commit atomically or report per-operation results", async () => {
+  const { app, config } = await createTestServer();
+
+  type BatchResponse = {
+    committed: boolean;
+    results: Array<{
+      status: number;
+      todo?: { id: string; title: string };
+      error?: { code: string };
+    }>;
+  };
+  const runBatch = async (body: unknown) => {
+    const batchRes = await fetchApi(
+      new URL("/todos/batch", config.publicBaseUrl),
+      {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(body),
+      },
+    );
+    assert.equal(batchRes.status, 200);
+    return (await batchRes.json()) as BatchResponse;
+  };
+  const listTitles = async () => {
+    const listRes = await fetchApi(
+      new URL("/todos?sort=title", config.publicBaseUrl),
+    );
+    const list = (await listRes.json()) as { todos: Array<{ title: string }> };
+    return list.todos.map((todo) => todo.title);
+  };
+
+  try {
+    const created = await runBatch({
+      operations: Array.from({ length: 200 }, (_, index) => ({
+        op: "create",
+        body: { title: `Todo ${String(index).padStart(3, "0")}` },
+      })),
+    });
+    assert.equal(created.committed, true);
+    assert.equal(created.results.length, 200);
+    assert.ok(created.results.every((result) => result.status === 201));
+    const firstId = created.results[0].todo?.id;
+
+    const rolledBack = await runBatch({
+      atomic: true,
+      operations: [
+        { op: "update", todoId: firstId, body: { title: "Renamed" } },
+        { op: "delete", todoId: crypto.randomUUID() },
+        { op: "create", body: { title: "Never created" } },
+      ],
+    });
+    assert.equal(rolledBack.committed, false);
+    assert.deepEqual(
+      rolledBack.results.map((result) => [result.status, result.error?.code]),
+      [
+        [424, "BATCH_ROLLED_BACK"],
+        [404, "NOT_FOUND"],
+        [424, "BATCH_ROLLED_BACK"],
+      ],
+    );
+    const titles = await listTitles();
+    assert.equal(titles.length, 50);
+    assert.equal(titles[0], "Todo 000");
+    assert.ok(!titles.includes("Never created"));
+
+    const independent = await runBatch({
+      atomic: false,
+      operations: [
+        { op: "update", todoId: firstId, body: { title: "Renamed" } },
+        { op: "create", body: { title: "Todo 001" } },
+        { op: "delete", todoId: firstId },
+      ],
+    });
+    assert.equal(independent.committed, true);
+    assert.deepEqual(
+      independent.results.map((result) => result.status),
+      [200, 409, 204],
+    );
+
+    const getRes = await fetchApi(
+      new URL(`/todos/${firstId}`, config.publicBaseUrl),
+    );
+    assert.equal(getRes.status, 404);
+    await getRes.body?.cancel();
+  } finally {
+    await app.stop();
+  }
+});
+
+test("POST /todos replays responses for a repeated Idempotency-Key", async () => {
+  const { app, config } = await createTestServer();
+
+  const createWithKey = (key: string, title: string) =>
+    fetchApi(new URL("/todos", config.publicBaseUrl), {
+      method: "POST",
+      headers: { "content-type": "application/json", "idempotency-key": key },
+      body: JSON.stringify({ title }),
+    });
+
+  try {
+    const firstRes = await createWithKey("retry-1", "Pay rent");
+    assert.equal(firstRes.status, 201);
+    assert.equal(firstRes.headers.get("idempotent-replayed"), null);
+    const first = (await firstRes.json()) as { id: string };
+
+    const retryRes = await createWithKey("retry-1", "Pay rent");
+    assert.equal(retryRes.status, 201);
+    assert.equal(retryRes.headers.get("idempotent-replayed"), "true");
+    assert.deepEqual(await retryRes.json(), first);
+
+    const reusedRes = await createWithKey("retry-1", "Pay bills");
+    assert.equal(reusedRes.status, 422);
+    assert.equal(
+      ((await reusedRes.json()) as { code: string }).code,
+      "IDEMPOTENCY_KEY_REUSED",
+    );
+
+    const duplicateRes = await createWithKey("retry-2", "Pay rent");
+    assert.equal(duplicateRes.status, 409);
+    await duplicateRes.body?.cancel();
+
+    const duplicateRetryRes = await createWithKey("retry-2", "Pay rent");
+    assert.equal(duplicateRetryRes.status, 409);
+    assert.equal(duplicateRetryRes.headers.get("idempotent-replayed"), "true");
+    await duplicateRetryRes.body?.cancel();
+
+    const listRes = await fetchApi(new URL("/todos", config.publicBaseUrl));
+    const list = (await listRes.json()) as { todos: unknown[] };
+    assert.equal(list.todos.length, 1);
+
+    await app.restart();
+    const afterRestartRes = await createWithKey("retry-1", "Pay bills");
+    assert.equal(afterRestartRes.status, 201);
+    await afterRestartRes.body?.cancel();
+  } finally {
+    await app.stop();
+  }
+});
+
+test("requests over the rate limit get 429 with Retry-After", async () => {
+  const { app, config } = await createTestServer({
+    rateLimitCapacity: 3,
+    rateLimitRefillPerSecond: 0.5,
+  });
+
+  try {
+    const statuses: number[] = [];
+    for (let index = 0; index < 4; index += 1) {
+      const listRes = await fetchApi(new URL("/todos", config.publicBaseUrl));
+      statuses.push(listRes.status);
+      if (listRes.status === 200) {
+        assert.equal(listRes.headers.get("ratelimit-limit"), "3");
+        assert.equal(
+          listRes.headers.get("ratelimit-remaining"),
+          String(2 - index),
+        );
+        await listRes.body?.cancel();
+      } else {
+        assert.equal(listRes.headers.get("retry-after"), "2");
+        assert.equal(
+          ((await listRes.json()) as { code: string }).code,
+          "RATE_LIMITED",
+        );
+      }
+    }
+    assert.deepEqual(statuses, [200, 200, 200, 429]);
+
+    const healthRes = await fetchApi(new URL("/health", config.publicBaseUrl));
+    assert.equal(healthRes.status, 200);
+    assert.equal(healthRes.headers.get("ratelimit-limit"), null);
+    await healthRes.body?.cancel();
+
+    await app.restart();
+    const afterRestartRes = await fetchApi(
+      new URL("/todos", config.publicBaseUrl),
+    );
+    assert.equal(afterRestartRes.status, 200);
+    await afterRestartRes.body?.cancel();
+  } finally {
+    await app.stop();
+  }
+});
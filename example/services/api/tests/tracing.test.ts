@@ -0,0 +1,286 @@
+import assert from "node:assert/strict";
+import { once } from "node:events";
+import http from "node:http";
+import { test } from "node:test";
+import { createContext } from "../src/createContext.ts";
+import type { SpanRecord } from "../src/types.ts";
+import {
+  createInMemorySpanExporter,
+  createOtlpSpanExporter,
+  type InMemorySpanExporter,
+} from "../src/utils/spanExporters.ts";
+import {
+  fetchWithTrace,
+  parseTraceparent,
+  startSpan,
+} from "../src/utils/tracing.ts";
+import { createTestConfig, createTestServer, fetchApi } from "./helpers.ts";
+
+const traceId = "4bf92f3577b34da6a3ce929d0e0e4736";
+const parentSpanId = "00f067aa0ba902b7";
+
+// The server span ends when the response closes, which can be just after the client has read it.
+async function waitForSpan(
+  exporter: InMemorySpanExporter,
+  name: string,
+): Promise<SpanRecord[]> {
+  while (!exporter.getFinishedSpans().some((span) => span.name === name)) {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+  return exporter.getFinishedSpans();
+}
+
+function findSpan(spans: SpanRecord[], name: string): SpanRecord {
+  const span = spans.find((candidate) => candidate.name === name);
+  assert.ok(span, `missing span ${name}`);
+  return span;
+}
+
+test("traceparent parsing follows the W3C rules", () => {
+  assert.deepEqual(
+    parseTraceparent(`00-${traceId}-${parentSpanId}-01`, "vendor=value"),
+    {
+      traceId,
+      spanId: parentSpanId,
+      sampled: true,
+      traceState: "vendor=value",
+    },
+  );
+  assert.equal(
+    parseTraceparent(`00-${traceId}-${parentSpanId}-00`, undefined)?.sampled,
+    false,
+  );
+  // Future versions may append fields; version 00 may not.
+  assert.equal(
+    parseTraceparent(`01-${traceId}-${parentSpanId}-01-extra`, undefined)
+      ?.traceId,
+    traceId,
+  );
+  for (const invalid of [
+    undefined,
+    `00-${traceId}-${parentSpanId}-01-extra`,
+    `ff-${traceId}-${parentSpanId}-01`,
+    `00-${"0".repeat(32)}-${parentSpanId}-01`,
+    `00-${traceId}-${"0".repeat(16)}-01`,
+    `00-${traceId.toUpperCase()}-${parentSpanId}-01`,
+  ]) {
+    assert.equal(parseTraceparent(invalid, undefined), undefined, invalid);
+  }
+});
+
+test("requests record server, handler and model spans under the incoming trace", async () => {
+  const { app, config } = await createTestServer();
+  const exporter = createInMemorySpanExporter();
+  app.context.spanExporter = exporter;
+
+  try {
+    const batchRes = await fetchApi(
+      new URL("/todos/batch", config.publicBaseUrl),
+      {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          traceparent: `00-${traceId}-${parentSpanId}-01`,
+          tracestate: "vendor=value",
+        },
+        body: JSON.stringify({
+          operations: [{ op: "create", body: { title: "Traced" } }],
+        }),
+      },
+    );
+    assert.equal(batchRes.status, 200);
+    await batchRes.body?.cancel();
+
+    const spans = await waitForSpan(exporter, "POST /todos/batch");
+    const server = findSpan(spans, "POST /todos/batch");
+    const handler = findSpan(spans, "handler batchTodos");
+    const batch = findSpan(spans, "todos.runBatch");
+    const create = findSpan(spans, "todos.create");
+
+    assert.equal(server.kind, "server");
+    assert.equal(server.parentSpanId, parentSpanId);
+    assert.equal(server.attributes["http.route"], "/todos/batch");
+    assert.equal(server.attributes["http.response.status_code"], 200);
+    for (const span of [server, handler, batch, create]) {
+      assert.equal(span.traceId, traceId);
+    }
+    assert.equal(handler.parentSpanId, server.spanId);
+    assert.equal(batch.parentSpanId, handler.spanId);
+    // Spans started inside the batch's transaction still join the trace.
+    assert.equal(create.parentSpanId, batch.spanId);
+
+    exporter.reset();
+    const missingRes = await fetchApi(
+      new URL(`/todos/${crypto.randomUUID()}`, config.publicBaseUrl),
+    );
+    assert.equal(missingRes.status, 404);
+    await missingRes.body?.cancel();
+
+    const untraced = await waitForSpan(exporter, "GET /todos/:todoId");
+    const root = findSpan(untraced, "GET /todos/:todoId");
+    assert.notEqual(root.traceId, traceId);
+    assert.equal(root.parentSpanId, undefined);
+    const lookup = findSpan(untraced, "todos.getById");
+    assert.equal(lookup.status.code, "error");
+    assert.equal(lookup.attributes["exception.type"], "NotFoundError");
+  } finally {
+    await app.stop();
+  }
+});
+
+test("unsampled traces propagate ids without exporting spans", async () => {
+  const { app, config } = await createTestServer();
+  const exporter = createInMemorySpanExporter();
+  app.context.spanExporter = exporter;
+
+  try {
+    const response = await fetchApi(new URL("/todos", config.publicBaseUrl), {
+      headers: { traceparent: `00-${traceId}-${parentSpanId}-00` },
+    });
+    assert.equal(response.status, 200);
+    await response.body?.cancel();
+    assert.deepEqual(exporter.getFinishedSpans(), []);
+  } finally {
+    await app.stop();
+  }
+});
+
+test("outbound calls carry the caller's trace to the next service", async () => {
+  const { app, config } = await createTestServer();
+  const serverExporter = createInMemorySpanExporter();
+  app.context.spanExporter = serverExporter;
+
+  const callerContext = createContext(await createTestConfig());
+  const callerExporter = createInMemorySpanExporter();
+  callerContext.spanExporter = callerExporter;
+  const callerSpan = startSpan(callerContext, "caller", { kind: "server" });
+
+  try {
+    const response = await fetchWithTrace(
+      { ...callerContext, trace: callerSpan.context },
+      new URL("/health", config.publicBaseUrl),
+    );
+    assert.equal(response.status, 200);
+    await response.body?.cancel();
+    callerSpan.end();
+
+    const client = findSpan(callerExporter.getFinishedSpans(), "GET");
+    assert.equal(client.kind, "client");
+    assert.equal(client.parentSpanId, callerSpan.context.spanId);
+    assert.equal(client.attributes["http.response.status_code"], 200);
+
+    const server = findSpan(
+      await waitForSpan(serverExporter, "GET /health"),
+      "GET /health",
+    );
+    assert.equal(server.traceId, callerSpan.context.traceId);
+    assert.equal(server.parentSpanId, client.spanId);
+  } finally {
+    await callerContext.destroy();
+    await app.stop();
+  }
+});
+
+test("the OTLP exporter posts batched spans as OTLP/HTTP JSON", async () => {
+  const received: unknown[] = [];
+  const collector = http.createServer(async (request, response) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of request) {
+      chunks.push(chunk);
+    }
+    received.push({
+      path: request.url,
+      contentType: request.headers["content-type"],
+      body: JSON.parse(Buffer.concat(chunks).toString("utf8")),
+    });
+    response.writeHead(200).end("{}");
+  });
+  collector.listen(0, "127.0.0.1");
+  await once(collector, "listening");
+  const address = collector.address() as { port: number };
+
+  const context = createContext(await createTestConfig());
+  context.spanExporter = createOtlpSpanExporter({
+    url: `http://127.0.0.1:${address.port}/v1/traces`,
+    serviceName: "todo-api",
+    timeoutMs: 1000,
+    logger: context.logger,
+  });
+
+  try {
+    const span = startSpan(context, "work", {
+      parent: { traceId, spanId: parentSpanId, sampled: true },
+      attributes: { "todo.count": 2, ratio: 0.5, cached: false },
+    });
+    span.end();
+    await context.spanExporter.flush();
+
+    assert.equal(received.length, 1);
+    const [request] = received as Array<{
+      path: string;
+      contentType: string;
+      body: {
+        resourceSpans: Array<{
+          resource: unknown;
+          scopeSpans: Array<{ spans: Array<Record<string, unknown>> }>;
+        }>;
+      };
+    }>;
+    assert.equal(request.path, "/v1/traces");
+    assert.equal(request.contentType, "application/json");
+    const [resourceSpans] = request.body.resourceSpans;
+    assert.deepEqual(resourceSpans.resource, {
+      attributes: [{ key: "service.name", value: { stringValue: "todo-api" } }],
+    });
+    const [exported] = resourceSpans.scopeSpans[0].spans;
+    assert.equal(exported.traceId, traceId);
+    assert.equal(exported.parentSpanId, parentSpanId);
+    assert.equal(exported.name, "work");
+    assert.equal(exported.kind, 1);
+    assert.match(String(exported.startTimeUnixNano), /^\d{19}$/);
+    assert.deepEqual(exported.attributes, [
+      { key: "todo.count", value: { intValue: "2" } },
+      { key: "ratio", value: { doubleValue: 0.5 } },
+      { key: "cached", value: { boolValue: false } },
+    ]);
+  } finally {
+    await context.destroy();
+    collector.close();
+  }
+});
+
+test("a collector that never answers cannot stall flush or destroy", async () => {
+  const requests = new Set<http.ServerResponse>();
+  const collector = http.createServer((_request, response) => {
+    requests.add(response);
+  });
+  collector.listen(0, "127.0.0.1");
+  await once(collector, "listening");
+  const address = collector.address() as { port: number };
+
+  const context = createContext(
+    await createTestConfig({ otlpExportTimeoutMs: 50 }),
+  );
+  context.spanExporter = createOtlpSpanExporter({
+    url: `http://127.0.0.1:${address.port}/v1/traces`,
+    serviceName: "todo-api",
+    timeoutMs: context.config.otlpExportTimeoutMs,
+    logger: context.logger,
+  });
+
+  try {
+    startSpan(context, "flushed", { parent: null }).end();
+    await context.spanExporter.flush();
+
+    startSpan(context, "shut down", { parent: null }).end();
+    const startedAt = performance.now();
+    await context.destroy();
+    assert.ok(performance.now() - startedAt < 1000);
+    assert.equal(requests.size, 2);
+  } finally {
+    for (const response of requests) {
+      response.destroy();
+    }
+    collector.close();
+  }
+});
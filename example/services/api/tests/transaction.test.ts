@@ -0,0 +1,162 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createContext } from "../src/createContext.ts";
+import { ConflictError } from "../src/errors.ts";
+import {
+  createTodo,
+  listTodos,
+  searchTodos,
+  updateTodo,
+} from "../src/models/todos.ts";
+import { createTestConfig } from "./helpers.ts";
+
+const ownerId = "owner-a";
+
+const listAll = {
+  sort: "title",
+  direction: "asc",
+  limit: 100,
+} as const;
+
+test("transactions commit staged writes together", async () => {
+  const context = createContext(await createTestConfig());
+
+  try {
+    await context.db.transaction(async (transaction) => {
+      await createTodo(transaction, ownerId, { title: "First" });
+      await createTodo(transaction, ownerId, { title: "Second" });
+      assert.equal(context.db.todos.getAll(ownerId).length, 0);
+      assert.equal(transaction.db.todos.getAll(ownerId).length, 2);
+    });
+
+    const { todos } = await listTodos(context, ownerId, listAll);
+    assert.deepEqual(
+      todos.map((todo) => todo.title),
+      ["First", "Second"],
+    );
+    assert.equal(context.db.todos.search(ownerId, "second", 10).length, 1);
+  } finally {
+    await context.destroy();
+  }
+});
+
+test("transactions roll back when the work throws", async () => {
+  const context = createContext(await createTestConfig());
+
+  try {
+    const kept = await createTodo(context, ownerId, { title: "Kept" });
+
+    await assert.rejects(
+      context.db.transaction(async (transaction) => {
+        await updateTodo(transaction, ownerId, kept.id, { title: "Renamed" });
+        await createTodo(transaction, ownerId, { title: "Added" });
+        await createTodo(transaction, ownerId, { title: "Renamed" });
+      }),
+      ConflictError,
+    );
+
+    assert.equal(context.db.todos.getById(kept.id)?.title, "Kept");
+    assert.equal(context.db.todos.getAll(ownerId).length, 1);
+  } finally {
+    await context.destroy();
+  }
+});
+
+test("transactions refuse to commit over concurrent writes", async () => {
+  const context = createContext(await createTestConfig());
+
+  try {
+    const todo = await createTodo(context, ownerId, { title: "Contended" });
+
+    await assert.rejects(
+      context.db.transaction(async (transaction) => {
+        await updateTodo(transaction, ownerId, todo.id, { completed: true });
+        await updateTodo(context, ownerId, todo.id, {
+          title: "Changed outside",
+        });
+      }),
+      ConflictError,
+    );
+
+    const stored = context.db.todos.getById(todo.id);
+    assert.deepEqual(
+      [stored?.title, stored?.completed],
+      ["Changed outside", false],
+    );
+  } finally {
+    await context.destroy();
+  }
+});
+
+test("transactions refuse to commit over a concurrent todo with the same title", async () => {
+  const context = createContext(await createTestConfig());
+
+  try {
+    await assert.rejects(
+      context.db.transaction(async (transaction) => {
+        await createTodo(transaction, ownerId, { title: "Shared" });
+        await createTodo(context, ownerId, { title: "shared" });
+      }),
+      ConflictError,
+    );
+
+    const { todos } = await listTodos(context, ownerId, listAll);
+    assert.deepEqual(
+      todos.map((todo) => todo.title),
+      ["shared"],
+    );
+  } finally {
+    await context.destroy();
+  }
+});
+
+test("transactions refuse to commit when a todo they only read has changed", async () => {
+  const context = createContext(await createTestConfig());
+
+  try {
+    const read = await createTodo(context, ownerId, { title: "Read" });
+    const written = await createTodo(context, ownerId, { title: "Written" });
+
+    await assert.rejects(
+      context.db.transaction(async (transaction) => {
+        transaction.db.todos.getById(read.id);
+        await updateTodo(context, ownerId, read.id, { completed: true });
+        transaction.db.todos.replace({ ...written, completed: true });
+      }),
+      ConflictError,
+    );
+
+    assert.equal(context.db.todos.getById(written.id)?.completed, false);
+  } finally {
+    await context.destroy();
+  }
+});
+
+test("searches inside a transaction see its staged titles", async () => {
+  const context = createContext(await createTestConfig());
+
+  try {
+    const renamed = await createTodo(context, ownerId, { title: "Old name" });
+
+    await context.db.transaction(async (transaction) => {
+      await updateTodo(transaction, ownerId, renamed.id, { title: "Fresh" });
+      await createTodo(transaction, ownerId, { title: "Fresher" });
+
+      const { results } = await searchTodos(transaction, ownerId, {
+        q: "fresh",
+        limit: 10,
+      });
+      assert.deepEqual(results.map((result) => result.todo.title).sort(), [
+        "Fresh",
+        "Fresher",
+      ]);
+      const old = await searchTodos(transaction, ownerId, {
+        q: "old",
+        limit: 10,
+      });
+      assert.deepEqual(old.results, []);
+    });
+  } finally {
+    await context.destroy();
+  }
+});